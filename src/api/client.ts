@@ -1,4 +1,65 @@
-import type { SentryConfig, SentryIssue, SentryEvent, PaginationLinks } from '../types.js';
+import type {
+  SentryConfig,
+  SentryIssue,
+  SentryIssueDetail,
+  SentryEvent,
+  SentryTeam,
+  SentryTagDistribution,
+  SentryShortIdLookup,
+  SentryEventIdLookup,
+  ResolvedIssue,
+  ResolvedEvent,
+  IssueUpdate,
+  DiscoverResponse,
+  OrgEventsQuery,
+  PaginationLinks,
+  TimeRange,
+  SearchResult,
+  SentryRelease,
+} from '../types.js';
+
+// Hosts that are Sentry regions rather than org subdomains
+const REGION_HOSTS = new Set(['sentry.io', 'us.sentry.io', 'de.sentry.io']);
+
+interface ParsedIssueUrl {
+  org?: string;
+  issueId?: string;
+  eventId?: string;
+}
+
+/**
+ * Extract org, issue and event IDs from a Sentry web URL.
+ * Handles `https://<org>.sentry.io/issues/<id>/events/<event>/` and
+ * `https://<host>/organizations/<org>/issues/<id>/` (self-hosted and legacy).
+ */
+function parseIssueUrl(value: string): ParsedIssueUrl | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return null;
+  }
+
+  const result: ParsedIssueUrl = {};
+
+  const orgPath = url.pathname.match(/\/organizations\/([^/]+)\//);
+  if (orgPath) {
+    result.org = orgPath[1];
+  } else if (url.hostname.endsWith('.sentry.io') && !REGION_HOSTS.has(url.hostname)) {
+    result.org = url.hostname.slice(0, -'.sentry.io'.length);
+  }
+
+  const issue = url.pathname.match(/\/issues\/([^/]+)/);
+  if (issue) result.issueId = decodeURIComponent(issue[1]);
+
+  const event = url.pathname.match(/\/events\/([^/]+)/);
+  if (event) result.eventId = decodeURIComponent(event[1]);
+
+  return result;
+}
+
+// Sentry caps how many issue IDs a single bulk mutation may reference
+const BULK_UPDATE_BATCH_SIZE = 100;
 
 interface ApiResponse<T> {
   data: T;
@@ -99,17 +160,32 @@ export class SentryClient {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
 
-  async getIssues(options: {
+  // Absolute start/end win over a relative statsPeriod; Sentry rejects both
+  private setTimeRange(params: URLSearchParams, range: TimeRange): void {
+    if (range.start || range.end) {
+      if (range.start) params.set('start', range.start);
+      if (range.end) params.set('end', range.end);
+    } else if (range.statsPeriod) {
+      params.set('statsPeriod', range.statsPeriod);
+    }
+  }
+
+  async getIssues(options: TimeRange & {
     project?: string;
     query?: string;
-    statsPeriod?: string;
     environment?: string;
     limit?: number;
+    // Which stats series to include: 24h (hourly) or 14d (daily)
+    groupStatsPeriod?: string;
+    // Sentry sort key: date, new, freq, user, priority
+    sort?: string;
   }): Promise<SentryIssue[]> {
     const params = new URLSearchParams();
 
     if (options.query) params.set('query', options.query);
-    if (options.statsPeriod) params.set('statsPeriod', options.statsPeriod);
+    this.setTimeRange(params, options);
+    if (options.groupStatsPeriod) params.set('groupStatsPeriod', options.groupStatsPeriod);
+    if (options.sort) params.set('sort', options.sort);
     if (options.environment) params.set('environment', options.environment);
     if (options.limit) params.set('limit', options.limit.toString());
 
@@ -139,13 +215,189 @@ export class SentryClient {
     return issues.slice(0, maxResults);
   }
 
+  async getIssue(issueId: string): Promise<SentryIssueDetail> {
+    const path = `/organizations/${this.config.org}/issues/${issueId}/`;
+    const { data } = await this.request<SentryIssueDetail>(path);
+    return data;
+  }
+
+  /**
+   * Resolve a user-supplied issue reference to a numeric issue ID.
+   * Accepts numeric IDs, short IDs (PROJ-1234), and issue or event URLs.
+   * Throws IssueNotFoundError listing every lookup that was attempted.
+   */
+  async resolveIssue(ref: string): Promise<ResolvedIssue> {
+    const input = ref.trim();
+    const attempts: string[] = [];
+    let candidate = input;
+    let eventId: string | undefined;
+    let org: string | undefined;
+
+    if (/^https?:\/\//i.test(input)) {
+      const parsed = parseIssueUrl(input);
+      attempts.push(`parse URL ${input}`);
+      if (!parsed?.issueId) {
+        throw new IssueNotFoundError(input, attempts);
+      }
+
+      candidate = parsed.issueId;
+      eventId = parsed.eventId;
+      org = parsed.org;
+    }
+
+    const orgMismatch = org && org !== this.config.org
+      ? { url: org, configured: this.config.org }
+      : undefined;
+
+    if (!/^\d+$/.test(candidate)) {
+      attempts.push(`short ID lookup for ${candidate}`);
+      const lookup = await this.lookupShortId(candidate);
+      if (lookup) {
+        return { input, issueId: lookup.groupId, eventId, org, orgMismatch, issue: lookup.group };
+      }
+    }
+
+    attempts.push(`issue ID lookup for ${candidate}`);
+    try {
+      const issue = await this.getIssue(candidate);
+      return { input, issueId: issue.id, eventId, org, orgMismatch, issue, detail: issue };
+    } catch (error) {
+      if (error instanceof SentryApiError && error.statusCode === 404) {
+        throw new IssueNotFoundError(input, attempts);
+      }
+      throw error;
+    }
+  }
+
+  private async lookupShortId(shortId: string): Promise<SentryShortIdLookup | null> {
+    const path = `/organizations/${this.config.org}/shortids/${encodeURIComponent(shortId)}/`;
+    try {
+      const { data } = await this.request<SentryShortIdLookup>(path);
+      return data;
+    } catch (error) {
+      if (error instanceof SentryApiError && error.statusCode === 404) return null;
+      throw error;
+    }
+  }
+
+  async getIssueTags(
+    issueId: string,
+    options: { keys?: string[]; limit?: number } = {}
+  ): Promise<SentryTagDistribution[]> {
+    const params = new URLSearchParams();
+    for (const key of options.keys || []) params.append('key', key);
+    if (options.limit) params.set('limit', options.limit.toString());
+
+    const path = `/organizations/${this.config.org}/issues/${issueId}/tags/?${params}`;
+    const { data } = await this.request<SentryTagDistribution[]>(path);
+    return data;
+  }
+
+  /**
+   * Apply the same update to one or many issues.
+   * IDs must be numeric issue IDs; batches are sent sequentially.
+   */
+  async updateIssues(issueIds: string[], update: IssueUpdate): Promise<void> {
+    for (let i = 0; i < issueIds.length; i += BULK_UPDATE_BATCH_SIZE) {
+      const params = new URLSearchParams();
+      for (const id of issueIds.slice(i, i + BULK_UPDATE_BATCH_SIZE)) {
+        params.append('id', id);
+      }
+
+      const path = `/organizations/${this.config.org}/issues/?${params}`;
+      await this.request<IssueUpdate>(path, {
+        method: 'PUT',
+        body: JSON.stringify(update),
+      });
+    }
+  }
+
+  /**
+   * Releases, newest first. The project endpoint is used when a project
+   * slug is given, since the org endpoint filters by numeric project ID.
+   */
+  async getReleases(options: {
+    project?: string;
+    query?: string;
+    environment?: string;
+    limit?: number;
+    // Stop paging after the page where a release matches
+    until?: (release: SentryRelease) => boolean;
+  } = {}): Promise<SentryRelease[]> {
+    const params = new URLSearchParams();
+    if (options.query) params.set('query', options.query);
+    if (options.environment) params.set('environment', options.environment);
+    params.set('per_page', Math.min(100, options.limit || 25).toString());
+
+    const base = options.project
+      ? `/projects/${this.config.org}/${options.project}/releases/`
+      : `/organizations/${this.config.org}/releases/`;
+
+    const releases: SentryRelease[] = [];
+    const maxResults = options.limit || 25;
+    let cursor: string | undefined;
+
+    do {
+      const pageParams = new URLSearchParams(params);
+      if (cursor) pageParams.set('cursor', cursor);
+
+      const { data, pagination } = await this.request<SentryRelease[]>(`${base}?${pageParams}`);
+      releases.push(...data);
+
+      if (releases.length >= maxResults || (options.until && data.some(options.until))) break;
+      cursor = pagination.next?.results ? pagination.next.cursor : undefined;
+    } while (cursor);
+
+    return releases.slice(0, maxResults);
+  }
+
+  async getRelease(version: string): Promise<SentryRelease> {
+    const path = `/organizations/${this.config.org}/releases/${encodeURIComponent(version)}/`;
+    try {
+      const { data } = await this.request<SentryRelease>(path);
+      return data;
+    } catch (error) {
+      if (error instanceof SentryApiError && error.statusCode === 404) {
+        throw new Error(`Release not found: ${version}`);
+      }
+      throw error;
+    }
+  }
+
+  async getTeam(teamSlug: string): Promise<SentryTeam> {
+    const path = `/teams/${this.config.org}/${teamSlug}/`;
+    const { data } = await this.request<SentryTeam>(path);
+    return data;
+  }
+
+  /**
+   * Turn a user-supplied assignee into a Sentry actor string.
+   * Accepts usernames, emails, `user:<id>`, `team:<id|slug>` and `#team-slug`;
+   * `none` (or an empty string) clears the assignment.
+   */
+  async resolveAssignee(assignee: string): Promise<string> {
+    const value = assignee.trim();
+    if (!value || value.toLowerCase() === 'none') return '';
+
+    const teamMatch = value.match(/^(?:#|team:)(.+)$/);
+    if (teamMatch) {
+      const team = teamMatch[1];
+      if (/^\d+$/.test(team)) return `team:${team}`;
+      const { id } = await this.getTeam(team);
+      return `team:${id}`;
+    }
+
+    return value;
+  }
+
   async getIssueEvents(
     issueId: string,
-    options: { limit?: number; full?: boolean } = {}
+    options: TimeRange & { limit?: number; full?: boolean } = {}
   ): Promise<SentryEvent[]> {
     const params = new URLSearchParams();
     if (options.limit) params.set('limit', options.limit.toString());
     if (options.full) params.set('full', 'true');
+    this.setTimeRange(params, options);
 
     const path = `/organizations/${this.config.org}/issues/${issueId}/events/?${params}`;
     const { data } = await this.request<SentryEvent[]>(path);
@@ -161,12 +413,101 @@ export class SentryClient {
     return data;
   }
 
+  /**
+   * Locate an event anywhere in the org by its event ID.
+   * A project hint queries that project directly instead of the org-wide lookup.
+   */
+  async findEvent(
+    eventId: string,
+    options: { project?: string } = {}
+  ): Promise<ResolvedEvent> {
+    const id = eventId.trim().replace(/-/g, '').toLowerCase();
+    const attempts: string[] = [];
+
+    try {
+      if (options.project) {
+        attempts.push(`event lookup in project ${options.project}`);
+        const path = `/projects/${this.config.org}/${options.project}/events/${id}/`;
+        const { data } = await this.request<SentryEvent>(path);
+        return {
+          eventId: data.eventID,
+          issueId: data.groupID || '',
+          projectSlug: options.project,
+          event: data,
+        };
+      }
+
+      attempts.push(`org-wide event ID lookup in ${this.config.org}`);
+      const path = `/organizations/${this.config.org}/eventids/${id}/`;
+      const { data } = await this.request<SentryEventIdLookup>(path);
+      return {
+        eventId: data.eventId,
+        issueId: data.groupId,
+        projectSlug: data.projectSlug,
+        event: data.event,
+      };
+    } catch (error) {
+      if (error instanceof SentryApiError && error.statusCode === 404) {
+        throw new EventNotFoundError(eventId, attempts);
+      }
+      throw error;
+    }
+  }
+
   async getLatestEvent(issueId: string): Promise<SentryEvent> {
     const path = `/organizations/${this.config.org}/issues/${issueId}/events/latest/`;
     const { data } = await this.request<SentryEvent>(path);
     return data;
   }
 
+  /**
+   * Query the org-wide events (Discover) endpoint. Returns a single page;
+   * callers follow `pagination.next` to fetch more.
+   */
+  async getOrgEvents(
+    options: OrgEventsQuery
+  ): Promise<{ data: DiscoverResponse; pagination: PaginationLinks }> {
+    const params = new URLSearchParams();
+
+    for (const field of options.fields) params.append('field', field);
+    for (const sort of options.sort || []) params.append('sort', sort);
+    if (options.query) params.set('query', options.query);
+    this.setTimeRange(params, options);
+    if (options.environment) params.set('environment', options.environment);
+    if (options.dataset) params.set('dataset', options.dataset);
+    if (options.perPage) params.set('per_page', options.perPage.toString());
+    if (options.cursor) params.set('cursor', options.cursor);
+
+    const path = `/organizations/${this.config.org}/events/?${params}`;
+    return this.request<DiscoverResponse>(path);
+  }
+
+  /**
+   * Run an org events (Discover) query, following cursors until `limit`
+   * rows are read. `cursor` resumes where an earlier call stopped.
+   */
+  async searchEvents(
+    options: Omit<OrgEventsQuery, 'perPage'> & { limit: number }
+  ): Promise<SearchResult> {
+    const { limit, ...query } = options;
+    const result: SearchResult = { fields: query.fields, data: [] };
+    let cursor = query.cursor;
+
+    do {
+      const { data, pagination } = await this.getOrgEvents({
+        ...query,
+        perPage: Math.min(100, limit - result.data.length),
+        cursor,
+      });
+      result.meta ??= data.meta;
+      result.data.push(...data.data);
+      cursor = pagination.next?.results ? pagination.next.cursor : undefined;
+    } while (cursor && result.data.length < limit);
+
+    result.nextCursor = cursor;
+    return result;
+  }
+
   async testConnection(): Promise<boolean> {
     try {
       const path = `/organizations/${this.config.org}/`;
@@ -188,3 +529,23 @@ export class SentryApiError extends Error {
     this.name = 'SentryApiError';
   }
 }
+
+export class IssueNotFoundError extends Error {
+  constructor(
+    public ref: string,
+    public attempts: string[]
+  ) {
+    super(`Issue not found: ${ref}\nTried:\n${attempts.map((a) => `  - ${a}`).join('\n')}`);
+    this.name = 'IssueNotFoundError';
+  }
+}
+
+export class EventNotFoundError extends Error {
+  constructor(
+    public ref: string,
+    public attempts: string[]
+  ) {
+    super(`Event not found: ${ref}\nTried:\n${attempts.map((a) => `  - ${a}`).join('\n')}`);
+    this.name = 'EventNotFoundError';
+  }
+}
@@ -2,12 +2,37 @@
 
 import { Command } from 'commander';
 import { issuesCommand } from './commands/issues.js';
+import { issueCommand } from './commands/issue.js';
 import { eventsCommand } from './commands/events.js';
+import { stackCommand } from './commands/stack.js';
+import { openCommand } from './commands/open.js';
+import { suspectsCommand } from './commands/suspects.js';
+import { breadcrumbsCommand } from './commands/breadcrumbs.js';
+import { diffCommand } from './commands/diff.js';
+import { eventCommand } from './commands/event.js';
+import { searchCommand } from './commands/search.js';
+import { releasesCommand, releaseCommand } from './commands/releases.js';
+import { checkCommand } from './commands/check.js';
+import { reportCommand } from './commands/report.js';
+import { CHECK_EXIT_CODES } from './utils/check.js';
 import { tailCommand } from './commands/tail.js';
-import type { OutputFormat } from './types.js';
+import { listenCommand } from './commands/listen.js';
+import {
+  resolveCommand,
+  unresolveCommand,
+  ignoreCommand,
+  assignCommand,
+  bookmarkCommand,
+} from './commands/triage.js';
+import type { OutputFormat, StackMode } from './types.js';
 
 const program = new Command();
 
+// Repeatable option: --tag a=1 --tag b=2
+function collect(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
+
 program
   .name('slog')
   .description('Fast, scriptable CLI for querying Sentry issues and events')
@@ -18,23 +43,66 @@ program
   .command('issues')
   .description('List issues (error groups) from Sentry')
   .option('-q, --query <query>', 'Sentry search query (e.g., "is:unresolved level:error")')
-  .option('-e, --env <environment>', 'Filter by environment')
-  .option('-s, --since <time>', 'Time period (e.g., 1h, 24h, 7d)', '24h')
+  .option('-e, --env <environments>', 'Filter by environment, comma-separated for several')
+  .option('--level <levels>', 'Only these levels, comma-separated (e.g., error,fatal)')
+  .option('--status <statuses>', 'Only these statuses, comma-separated (e.g., unresolved,regressed)')
+  .option('--assigned <who>', 'Assigned to: me, none, a user email or #team')
+  .option('--release <versions>', 'Only these releases, comma-separated')
+  .option('--tag <key=value>', 'Tag filter, repeatable (e.g., --tag browser.name=Chrome)', collect)
+  .option('--explain', 'Print the final query term by term and exit without querying Sentry')
+  .option('-s, --since <time>', 'Time period or start time (e.g., 1h, 7d, yesterday; default: 24h)')
+  .option('--start <time>', 'Start of an absolute range (e.g., 2024-05-01, "today 09:00", "last monday")')
+  .option('--end <time>', 'End of the range (default: now)')
+  .option('--tz <zone>', 'Time zone for dates and times without an offset (default: SLOG_TZ or system)')
   .option('-l, --limit <n>', 'Maximum number of issues to return', '25')
   .option('-p, --project <slug>', 'Filter by project slug')
-  .option('-f, --format <format>', 'Output format: table or json', 'table')
+  .option('--stats <period>', 'Event volume series for the trend and sparkline columns: 24h, 14d, none', '24h')
+  .option('--sort <key>', 'Sort by: trend (computed from stats), freq, new, date, users')
+  .option('-f, --format <format>', 'Output format: table, json, ndjson, csv, tsv, markdown, yaml', 'table')
   .option('--redact', 'Redact sensitive data (emails, tokens, secrets)')
   .option('--fields <fields>', 'Comma-separated list of fields to include in JSON output')
+  .option('--columns <columns>', 'Table columns as comma-separated field paths (e.g., shortId,level,project.slug,title)')
+  .option('--template <template>', 'Print one line per record, e.g. "{shortId} {level|color} {title|truncate:60}"')
   .action(async (opts) => {
     await issuesCommand({
       query: opts.query,
       env: opts.env,
+      level: opts.level,
+      status: opts.status,
+      assigned: opts.assigned,
+      release: opts.release,
+      tag: opts.tag,
+      explain: opts.explain,
       since: opts.since,
+      start: opts.start,
+      end: opts.end,
+      tz: opts.tz,
       limit: parseInt(opts.limit, 10),
+      stats: opts.stats,
+      sort: opts.sort,
       format: opts.format as OutputFormat,
       project: opts.project,
       redact: opts.redact,
       fields: opts.fields,
+      columns: opts.columns,
+      template: opts.template,
+    });
+  });
+
+// Issue detail command
+program
+  .command('issue <issue_id>')
+  .description('Show details for a single issue, including tag breakdown and stats')
+  .option('-t, --tags <keys>', 'Comma-separated tag keys to break down (default: environment, release, browser, os, ...)')
+  .option('-f, --format <format>', 'Output format: table, json, ndjson, csv, tsv, markdown, yaml', 'table')
+  .option('--redact', 'Redact sensitive data (emails, tokens, secrets)')
+  .option('--fields <fields>', 'Comma-separated list of fields to include in JSON output')
+  .action(async (issueId, opts) => {
+    await issueCommand(issueId, {
+      tags: opts.tags,
+      format: opts.format as OutputFormat,
+      redact: opts.redact,
+      fields: opts.fields,
     });
   });
 
@@ -43,14 +111,302 @@ program
   .command('events <issue_id>')
   .description('List recent events for a specific issue')
   .option('-l, --limit <n>', 'Maximum number of events to return', '10')
+  .option('-s, --since <time>', 'Only events in this period or after this time (e.g., 2h, yesterday)')
+  .option('--start <time>', 'Start of an absolute range (e.g., 2024-05-01, "today 09:00", "last monday")')
+  .option('--end <time>', 'End of the range (default: now)')
+  .option('--tz <zone>', 'Time zone for dates and times without an offset (default: SLOG_TZ or system)')
   .option('-x, --expand', 'Fetch full event payload including stacktrace & breadcrumbs')
-  .option('-f, --format <format>', 'Output format: table or json', 'table')
+  .option('--stack <mode>', 'Render expanded stacktraces in full: full, in-app, short (implies --expand)')
+  .option('-f, --format <format>', 'Output format: table, json, ndjson, csv, tsv, markdown, yaml', 'table')
   .option('--redact', 'Redact sensitive data (emails, tokens, secrets)')
   .option('--fields <fields>', 'Comma-separated list of fields to include in JSON output')
+  .option('--columns <columns>', 'Table columns as comma-separated field paths (e.g., shortId,level,project.slug,title)')
+  .option('--template <template>', 'Print one line per record, e.g. "{shortId} {level|color} {title|truncate:60}"')
   .action(async (issueId, opts) => {
     await eventsCommand(issueId, {
       limit: parseInt(opts.limit, 10),
-      expand: opts.expand || false,
+      since: opts.since,
+      start: opts.start,
+      end: opts.end,
+      tz: opts.tz,
+      expand: opts.expand || Boolean(opts.stack),
+      stack: opts.stack as StackMode | undefined,
+      format: opts.format as OutputFormat,
+      redact: opts.redact,
+      fields: opts.fields,
+      columns: opts.columns,
+      template: opts.template,
+    });
+  });
+
+// Event lookup command
+program
+  .command('event <event_id>')
+  .description('Show a single event by ID, without knowing its issue')
+  .option('-p, --project <slug>', 'Project slug to search instead of the whole org')
+  .option('-f, --format <format>', 'Output format: table, json, ndjson, csv, tsv, markdown, yaml', 'table')
+  .option('--redact', 'Redact sensitive data (emails, tokens, secrets)')
+  .option('--fields <fields>', 'Comma-separated list of fields to include in JSON output')
+  .action(async (eventId, opts) => {
+    await eventCommand(eventId, {
+      project: opts.project,
+      format: opts.format as OutputFormat,
+      redact: opts.redact,
+      fields: opts.fields,
+    });
+  });
+
+// Search command
+program
+  .command('search')
+  .description('Search and aggregate events across the org (Discover), e.g. errors per release')
+  .option('-q, --query <query>', 'Sentry search query (e.g., "url:*/checkout*")')
+  .option('--field <fields>', 'Fields or functions to select, repeatable or comma-separated (e.g., release, count(), count_unique(user))', collect)
+  .option('-g, --groupby <fields>', 'Group by these fields, repeatable or comma-separated; counts events unless --field has an aggregate', collect)
+  .option('-o, --orderby <fields>', 'Sort by selected fields, "-" prefix for descending (e.g., -count())', collect)
+  .option('--dataset <name>', 'Dataset: discover, errors, transactions')
+  .option('-e, --env <environments>', 'Filter by environment, comma-separated for several')
+  .option('-p, --project <slugs>', 'Filter by project slug, comma-separated for several')
+  .option('--level <levels>', 'Only these levels, comma-separated (e.g., error,fatal)')
+  .option('--status <statuses>', 'Only these statuses, comma-separated (e.g., unresolved,regressed)')
+  .option('--assigned <who>', 'Assigned to: me, none, a user email or #team')
+  .option('--release <versions>', 'Only these releases, comma-separated')
+  .option('--tag <key=value>', 'Tag filter, repeatable (e.g., --tag browser.name=Chrome)', collect)
+  .option('--explain', 'Print the final query, fields and order and exit without querying Sentry')
+  .option('-s, --since <time>', 'Time period or start time (e.g., 1h, 7d, yesterday; default: 24h)')
+  .option('--start <time>', 'Start of an absolute range (e.g., 2024-05-01, "today 09:00", "last monday")')
+  .option('--end <time>', 'End of the range (default: now)')
+  .option('--tz <zone>', 'Time zone for dates and times without an offset (default: SLOG_TZ or system)')
+  .option('-l, --limit <n>', 'Maximum number of rows to return', '50')
+  .option('--cursor <cursor>', 'Continue from a cursor printed by a previous search')
+  .option('-f, --format <format>', 'Output format: table, json, ndjson, csv, tsv, markdown, yaml', 'table')
+  .option('--redact', 'Redact sensitive data (emails, tokens, secrets)')
+  .option('--fields <fields>', 'Comma-separated list of fields to include in JSON output')
+  .action(async (opts) => {
+    await searchCommand({
+      query: opts.query,
+      field: opts.field,
+      groupby: opts.groupby,
+      orderby: opts.orderby,
+      dataset: opts.dataset,
+      env: opts.env,
+      project: opts.project,
+      level: opts.level,
+      status: opts.status,
+      assigned: opts.assigned,
+      release: opts.release,
+      tag: opts.tag,
+      explain: opts.explain,
+      since: opts.since,
+      start: opts.start,
+      end: opts.end,
+      tz: opts.tz,
+      limit: parseInt(opts.limit, 10),
+      cursor: opts.cursor,
+      format: opts.format as OutputFormat,
+      redact: opts.redact,
+      fields: opts.fields,
+    });
+  });
+
+// Release commands
+program
+  .command('releases')
+  .description('List recent releases with new issue counts and deploy info')
+  .option('-p, --project <slug>', 'Only releases of this project')
+  .option('-q, --query <text>', 'Only versions containing this text')
+  .option('-e, --env <environment>', 'Only releases deployed to this environment')
+  .option('-l, --limit <n>', 'Maximum number of releases to return', '10')
+  .option('-f, --format <format>', 'Output format: table, json, ndjson, csv, tsv, markdown, yaml', 'table')
+  .option('--redact', 'Redact sensitive data (emails, tokens, secrets)')
+  .option('--fields <fields>', 'Comma-separated list of fields to include in JSON output')
+  .action(async (opts) => {
+    await releasesCommand({
+      project: opts.project,
+      query: opts.query,
+      env: opts.env,
+      limit: parseInt(opts.limit, 10),
+      format: opts.format as OutputFormat,
+      redact: opts.redact,
+      fields: opts.fields,
+    });
+  });
+
+program
+  .command('release <version>')
+  .description('Report new issues, regressions and top issues of a release against the one before it')
+  .option('-p, --project <slug>', 'Project to compare within (default: the release\'s only project, else org-wide)')
+  .option('-e, --env <environments>', 'Only events from these environments, comma-separated')
+  .option('-l, --limit <n>', 'Maximum number of issues per section', '10')
+  .option('-f, --format <format>', 'Output format: table, json, ndjson, csv, tsv, markdown, yaml', 'table')
+  .option('--redact', 'Redact sensitive data (emails, tokens, secrets)')
+  .option('--fields <fields>', 'Comma-separated list of fields to include in JSON output')
+  .action(async (version, opts) => {
+    await releaseCommand(version, {
+      project: opts.project,
+      env: opts.env,
+      limit: parseInt(opts.limit, 10),
+      format: opts.format as OutputFormat,
+      redact: opts.redact,
+      fields: opts.fields,
+    });
+  });
+
+// Check command (CI deploy gate)
+program
+  .command('check')
+  .description('Evaluate deploy gate rules; exits 0 on pass, 1 when a rule fails, 2 on API/auth errors, 3 on invalid rules')
+  .option('-r, --rule <rule>', 'Rule as "<metric> [key=value ...] <op> <n>", e.g. "new-issues release=web@1.2.0 > 0" (repeatable)', collect)
+  .option('--file <path>', 'YAML or JSON file with a list of rules')
+  .option('--tz <zone>', 'Time zone for dates and times without an offset (default: SLOG_TZ or system)')
+  .option('-f, --format <format>', 'Output format: table, junit, json, ndjson, csv, tsv, markdown, yaml', 'table')
+  .option('--redact', 'Redact sensitive data (emails, tokens, secrets)')
+  .option('--fields <fields>', 'Comma-separated list of fields to include in JSON output')
+  // Usage errors get their own code so they can't pass for a failed rule
+  .exitOverride((error) => process.exit(error.exitCode === 0 ? 0 : CHECK_EXIT_CODES.usage))
+  .action(async (opts) => {
+    await checkCommand({
+      rule: opts.rule,
+      file: opts.file,
+      tz: opts.tz,
+      format: opts.format as OutputFormat,
+      redact: opts.redact,
+      fields: opts.fields,
+    });
+  });
+
+// Report command (digest)
+program
+  .command('report')
+  .description('Digest of top, new, regressed and now resolved issues with per-project totals, as Markdown, HTML or JSON')
+  .option('-s, --since <time>', 'Time period or start time (e.g., 7d, "last monday"; default: 7d)')
+  .option('--start <time>', 'Start of an absolute range (e.g., 2024-05-01, "today 09:00", "last monday")')
+  .option('--end <time>', 'End of the range (default: now)')
+  .option('--tz <zone>', 'Time zone for dates and times without an offset (default: SLOG_TZ or system)')
+  .option('-p, --project <slug>', 'Only this project (default: every project)')
+  .option('-e, --env <environments>', 'Only these environments, comma-separated')
+  .option('--level <levels>', 'Only these levels, comma-separated (e.g., error,fatal)')
+  .option('-l, --limit <n>', 'Maximum number of issues per section', '10')
+  .option('-f, --format <format>', 'Output format: markdown, html, json, ndjson, yaml', 'markdown')
+  .option('--redact', 'Accepted for consistency; digests are always redacted')
+  .option('--fields <fields>', 'Comma-separated list of fields to include in JSON output')
+  .action(async (opts) => {
+    await reportCommand({
+      since: opts.since,
+      start: opts.start,
+      end: opts.end,
+      tz: opts.tz,
+      project: opts.project,
+      env: opts.env,
+      level: opts.level,
+      limit: parseInt(opts.limit, 10),
+      format: opts.format as OutputFormat,
+      redact: opts.redact,
+      fields: opts.fields,
+    });
+  });
+
+// Stack command
+program
+  .command('stack <ref>')
+  .description('Show the full stacktrace of an issue\'s latest event, or of an event by ID')
+  .option('-m, --mode <mode>', 'Frames to show: full, in-app, short', 'in-app')
+  .option('--vars', 'Print local variables for each expanded frame')
+  .option('--threads', 'Print every thread, not just the crashed one')
+  .option('-p, --project <slug>', 'Project slug to search when <ref> is an event ID')
+  .option('-r, --repo <path>', 'Local checkout to map in-app frames onto (default: SLOG_REPO)')
+  .option('--path-map <rules>', 'Extra path rewrites as from=to, comma-separated (e.g., /srv/app/=,dist/=src/)')
+  .option('-f, --format <format>', 'Output format: table, json, ndjson, csv, tsv, markdown, yaml', 'table')
+  .option('--redact', 'Redact sensitive data (emails, tokens, secrets)')
+  .option('--fields <fields>', 'Comma-separated list of fields to include in JSON output')
+  .action(async (ref, opts) => {
+    await stackCommand(ref, {
+      mode: opts.mode as StackMode,
+      vars: opts.vars,
+      threads: opts.threads,
+      project: opts.project,
+      repo: opts.repo,
+      pathMap: opts.pathMap,
+      format: opts.format as OutputFormat,
+      redact: opts.redact,
+      fields: opts.fields,
+    });
+  });
+
+// Breadcrumbs command
+program
+  .command('breadcrumbs <ref>')
+  .description('Show the breadcrumb timeline leading up to an issue\'s latest event, or an event by ID')
+  .option('-c, --category <categories>', 'Only these categories, comma-separated (e.g., http,navigation; "ui" matches ui.click)')
+  .option('--level <levels>', 'Only these levels, comma-separated (e.g., warning,error)')
+  .option('-g, --grep <pattern>', 'Only breadcrumbs whose category or message matches this regex (case-insensitive)')
+  .option('-p, --project <slug>', 'Project slug to search when <ref> is an event ID')
+  .option('-f, --format <format>', 'Output format: table, json, ndjson, csv, tsv, markdown, yaml', 'table')
+  .option('--redact', 'Redact sensitive data (emails, tokens, secrets)')
+  .option('--fields <fields>', 'Comma-separated list of fields to include in JSON output')
+  .action(async (ref, opts) => {
+    await breadcrumbsCommand(ref, {
+      category: opts.category,
+      level: opts.level,
+      grep: opts.grep,
+      project: opts.project,
+      format: opts.format as OutputFormat,
+      redact: opts.redact,
+      fields: opts.fields,
+    });
+  });
+
+// Diff command
+program
+  .command('diff [events...]')
+  .description('Compare two events (IDs, issue refs or event URLs), or an issue\'s first and latest events')
+  .option('-i, --issue <issue_id>', 'Compare against this issue\'s typical event, or use with --latest-vs-first')
+  .option('--latest-vs-first', 'Compare the issue\'s first event with its latest')
+  .option('-p, --project <slug>', 'Project slug to search when events are given by ID')
+  .option('-f, --format <format>', 'Output format: table, json, ndjson, csv, tsv, markdown, yaml', 'table')
+  .option('--redact', 'Redact sensitive data (emails, tokens, secrets)')
+  .option('--fields <fields>', 'Comma-separated list of fields to include in JSON output')
+  .action(async (events, opts) => {
+    await diffCommand(events, {
+      issue: opts.issue,
+      latestVsFirst: opts.latestVsFirst,
+      project: opts.project,
+      format: opts.format as OutputFormat,
+      redact: opts.redact,
+      fields: opts.fields,
+    });
+  });
+
+// Open command
+program
+  .command('open <ref>')
+  .description('Open the crashing in-app frame of an issue or event in $EDITOR')
+  .option('-n, --frame <n>', 'Frame number as shown by `slog stack` (default: most recent in-app frame)')
+  .option('-r, --repo <path>', 'Local checkout to map frames onto (default: SLOG_REPO)')
+  .option('--path-map <rules>', 'Extra path rewrites as from=to, comma-separated')
+  .option('-p, --project <slug>', 'Project slug to search when <ref> is an event ID')
+  .action(async (ref, opts) => {
+    await openCommand(ref, {
+      frame: opts.frame !== undefined ? parseInt(opts.frame, 10) : undefined,
+      repo: opts.repo,
+      pathMap: opts.pathMap,
+      project: opts.project,
+    });
+  });
+
+// Suspects command
+program
+  .command('suspects <issue_id>')
+  .description('Blame the in-app frames of an issue\'s latest event and suggest owners from CODEOWNERS')
+  .option('-r, --repo <path>', 'Local git checkout to blame (default: SLOG_REPO)')
+  .option('--path-map <rules>', 'Extra path rewrites as from=to, comma-separated')
+  .option('-f, --format <format>', 'Output format: table, json, ndjson, csv, tsv, markdown, yaml', 'table')
+  .option('--redact', 'Redact sensitive data (emails, tokens, secrets)')
+  .option('--fields <fields>', 'Comma-separated list of fields to include in JSON output')
+  .action(async (issueId, opts) => {
+    await suspectsCommand(issueId, {
+      repo: opts.repo,
+      pathMap: opts.pathMap,
       format: opts.format as OutputFormat,
       redact: opts.redact,
       fields: opts.fields,
@@ -61,19 +417,177 @@ program
 program
   .command('tail')
   .description('Poll for new events and print them as they appear')
-  .option('-q, --query <query>', 'Sentry search query', 'is:unresolved')
-  .option('-e, --env <environment>', 'Filter by environment')
-  .option('-p, --project <slug>', 'Filter by project slug')
+  .option('-q, --query <query>', 'Sentry search query (default: is:unresolved)')
+  .option('-e, --env <environments>', 'Filter by environment, comma-separated for several')
+  .option('-p, --project <slugs>', 'Filter by project slug, comma-separated for several')
+  .option('--level <levels>', 'Only these levels, comma-separated (e.g., error,fatal)')
+  .option('--status <statuses>', 'Only these statuses, comma-separated (e.g., unresolved,regressed)')
+  .option('--assigned <who>', 'Assigned to: me, none, a user email or #team')
+  .option('--release <versions>', 'Only these releases, comma-separated')
+  .option('--tag <key=value>', 'Tag filter, repeatable (e.g., --tag browser.name=Chrome)', collect)
+  .option('--explain', 'Print the final query term by term and exit without querying Sentry')
   .option('-i, --interval <seconds>', 'Polling interval in seconds', '10')
-  .option('-f, --format <format>', 'Output format: table or json', 'table')
+  .option('-s, --since <time>', 'Backfill events from this far back or this time (e.g., 30m, 2h, "today 09:00")')
+  .option('--tz <zone>', 'Time zone for --since times without an offset (default: SLOG_TZ or system)')
+  .option('--state-file <path>', 'Persist position to this file and resume from it on restart')
+  .option('--checkpoint <name>', 'Named checkpoint stored under ~/.config/slog/checkpoints')
+  .option('--exec <cmd>', 'Run a shell command per event (event JSON on stdin, SLOG_* env vars)')
+  .option('--post <url>', 'POST each event as JSON to a URL')
+  .option('--concurrency <n>', 'Maximum hooks running at once', '4')
+  .option('--retries <n>', 'Retries per failed hook', '3')
+  .option('--failure-log <path>', 'Append hooks that failed all retries to this file (JSON lines)')
+  .option('-a, --aggregate <window>', 'Group events by issue over a rolling window (e.g., 5m) instead of one line per event')
+  .option('--spike <factor>', 'With --aggregate, flag issues whose count exceeds this multiple of their baseline', '3')
+  .option('-f, --format <format>', 'Output format: table, json, ndjson, csv, tsv, markdown, yaml', 'table')
   .option('--redact', 'Redact sensitive data (emails, tokens, secrets)')
   .option('--fields <fields>', 'Comma-separated list of fields to include in JSON output')
+  .option('--columns <columns>', 'Table columns as comma-separated field paths (e.g., shortId,level,project.slug,title)')
+  .option('--template <template>', 'Print one line per record, e.g. "{shortId} {level|color} {title|truncate:60}"')
   .action(async (opts) => {
     await tailCommand({
       query: opts.query,
       env: opts.env,
       project: opts.project,
+      level: opts.level,
+      status: opts.status,
+      assigned: opts.assigned,
+      release: opts.release,
+      tag: opts.tag,
+      explain: opts.explain,
       interval: parseInt(opts.interval, 10),
+      since: opts.since,
+      tz: opts.tz,
+      stateFile: opts.stateFile,
+      checkpoint: opts.checkpoint,
+      exec: opts.exec,
+      post: opts.post,
+      concurrency: Number(opts.concurrency),
+      retries: Number(opts.retries),
+      failureLog: opts.failureLog,
+      aggregate: opts.aggregate,
+      spike: Number(opts.spike),
+      format: opts.format as OutputFormat,
+      redact: opts.redact,
+      fields: opts.fields,
+      columns: opts.columns,
+      template: opts.template,
+    });
+  });
+
+// Webhook receiver command
+program
+  .command('listen')
+  .description('Receive Sentry integration webhooks locally and print them as they arrive')
+  .option('--port <n>', 'Port to listen on', '8787')
+  .option('--host <host>', 'Interface to bind', '127.0.0.1')
+  .option('--secret <secret>', 'Client secret for signature verification (default: SENTRY_CLIENT_SECRET)')
+  .option('--insecure', 'Accept payloads without verifying signatures (local testing only)')
+  .option('-f, --format <format>', 'Output format: table, json, ndjson, csv, tsv, markdown, yaml', 'table')
+  .option('--redact', 'Redact sensitive data (emails, tokens, secrets)')
+  .option('--fields <fields>', 'Comma-separated list of fields to include in JSON output')
+  .action(async (opts) => {
+    await listenCommand({
+      port: parseInt(opts.port, 10),
+      host: opts.host,
+      secret: opts.secret,
+      insecure: opts.insecure,
+      format: opts.format as OutputFormat,
+      redact: opts.redact,
+      fields: opts.fields,
+    });
+  });
+
+// Triage commands
+program
+  .command('resolve [issue_ids...]')
+  .description('Mark issues as resolved (reads IDs from stdin when none are given)')
+  .option('--in-release <version>', 'Resolve in a specific release')
+  .option('--in-next-release', 'Resolve in the next release')
+  .option('-n, --dry-run', 'Show what would change without updating anything')
+  .option('-f, --format <format>', 'Output format: table, json, ndjson, csv, tsv, markdown, yaml', 'table')
+  .option('--redact', 'Redact sensitive data (emails, tokens, secrets)')
+  .option('--fields <fields>', 'Comma-separated list of fields to include in JSON output')
+  .action(async (issueIds, opts) => {
+    await resolveCommand(issueIds, {
+      inRelease: opts.inRelease,
+      inNextRelease: opts.inNextRelease,
+      dryRun: opts.dryRun,
+      format: opts.format as OutputFormat,
+      redact: opts.redact,
+      fields: opts.fields,
+    });
+  });
+
+program
+  .command('unresolve [issue_ids...]')
+  .description('Mark issues as unresolved (reads IDs from stdin when none are given)')
+  .option('-n, --dry-run', 'Show what would change without updating anything')
+  .option('-f, --format <format>', 'Output format: table, json, ndjson, csv, tsv, markdown, yaml', 'table')
+  .option('--redact', 'Redact sensitive data (emails, tokens, secrets)')
+  .option('--fields <fields>', 'Comma-separated list of fields to include in JSON output')
+  .action(async (issueIds, opts) => {
+    await unresolveCommand(issueIds, {
+      dryRun: opts.dryRun,
+      format: opts.format as OutputFormat,
+      redact: opts.redact,
+      fields: opts.fields,
+    });
+  });
+
+program
+  .command('ignore [issue_ids...]')
+  .description('Ignore issues, optionally until a condition is met (reads IDs from stdin when none are given)')
+  .option('--for <duration>', 'Ignore for a duration (e.g., 30m, 2h, 7d)')
+  .option('--count <n>', 'Ignore until the issue occurs n more times')
+  .option('--window <duration>', 'Time window for --count (e.g., 1h)')
+  .option('--users <n>', 'Ignore until n more users are affected')
+  .option('--user-window <duration>', 'Time window for --users (e.g., 1d)')
+  .option('-n, --dry-run', 'Show what would change without updating anything')
+  .option('-f, --format <format>', 'Output format: table, json, ndjson, csv, tsv, markdown, yaml', 'table')
+  .option('--redact', 'Redact sensitive data (emails, tokens, secrets)')
+  .option('--fields <fields>', 'Comma-separated list of fields to include in JSON output')
+  .action(async (issueIds, opts) => {
+    await ignoreCommand(issueIds, {
+      for: opts.for,
+      count: opts.count !== undefined ? Number(opts.count) : undefined,
+      window: opts.window,
+      users: opts.users !== undefined ? Number(opts.users) : undefined,
+      userWindow: opts.userWindow,
+      dryRun: opts.dryRun,
+      format: opts.format as OutputFormat,
+      redact: opts.redact,
+      fields: opts.fields,
+    });
+  });
+
+program
+  .command('assign <assignee> [issue_ids...]')
+  .description('Assign issues to a user (username, email) or team (#team-slug); "none" unassigns')
+  .option('-n, --dry-run', 'Show what would change without updating anything')
+  .option('-f, --format <format>', 'Output format: table, json, ndjson, csv, tsv, markdown, yaml', 'table')
+  .option('--redact', 'Redact sensitive data (emails, tokens, secrets)')
+  .option('--fields <fields>', 'Comma-separated list of fields to include in JSON output')
+  .action(async (assignee, issueIds, opts) => {
+    await assignCommand(assignee, issueIds, {
+      dryRun: opts.dryRun,
+      format: opts.format as OutputFormat,
+      redact: opts.redact,
+      fields: opts.fields,
+    });
+  });
+
+program
+  .command('bookmark [issue_ids...]')
+  .description('Bookmark issues (reads IDs from stdin when none are given)')
+  .option('--remove', 'Remove the bookmark instead')
+  .option('-n, --dry-run', 'Show what would change without updating anything')
+  .option('-f, --format <format>', 'Output format: table, json, ndjson, csv, tsv, markdown, yaml', 'table')
+  .option('--redact', 'Redact sensitive data (emails, tokens, secrets)')
+  .option('--fields <fields>', 'Comma-separated list of fields to include in JSON output')
+  .action(async (issueIds, opts) => {
+    await bookmarkCommand(issueIds, {
+      remove: opts.remove,
+      dryRun: opts.dryRun,
       format: opts.format as OutputFormat,
       redact: opts.redact,
       fields: opts.fields,
@@ -0,0 +1,39 @@
+import { SentryClient } from '../api/client.js';
+import { loadConfig } from '../config.js';
+import { formatBreadcrumbs } from '../utils/format.js';
+import { fetchRefEvent } from '../utils/refs.js';
+import type { BreadcrumbsOptions } from '../types.js';
+import chalk from 'chalk';
+
+export async function breadcrumbsCommand(
+  ref: string,
+  options: BreadcrumbsOptions
+): Promise<void> {
+  const config = loadConfig();
+  const client = new SentryClient(config);
+
+  try {
+    const { event, label } = await fetchRefEvent(client, ref, options.project);
+
+    if (options.format === 'table') {
+      console.log(chalk.gray(label) + '\n');
+    }
+
+    const output = formatBreadcrumbs(event, options.format, {
+      category: options.category,
+      level: options.level,
+      grep: options.grep,
+      redact: options.redact,
+      fields: options.fields,
+    });
+
+    console.log(output);
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`Error: ${error.message}`);
+    } else {
+      console.error('An unexpected error occurred');
+    }
+    process.exit(1);
+  }
+}
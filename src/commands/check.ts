@@ -0,0 +1,139 @@
+import { SentryClient, SentryApiError } from '../api/client.js';
+import { loadConfig, getTimeZone } from '../config.js';
+import { formatCheckReport, getFormatter, validateFields } from '../utils/format.js';
+import {
+  loadRuleFile,
+  parseRule,
+  ruleFails,
+  ruleQuery,
+  summarizeCheck,
+  CHECK_EXIT_CODES,
+} from '../utils/check.js';
+import { releaseStart } from '../utils/release.js';
+import { resolveTimeRange, toApiTime, validateTimeZone } from '../utils/time.js';
+import { warnOrgMismatch } from '../utils/refs.js';
+import type { CheckOptions, CheckRule, CheckResult, TimeRange } from '../types.js';
+
+// Issues are counted a page at a time
+const ISSUE_PAGE = 100;
+
+interface RuleValue {
+  value: number;
+  capped?: boolean;
+}
+
+async function countIssues(client: SentryClient, rule: CheckRule, range: TimeRange): Promise<RuleValue> {
+  // Counting to one past the threshold is enough to decide any condition
+  const limit = Math.max(ISSUE_PAGE, Math.floor(rule.threshold) + 1);
+  const issues = await client.getIssues({
+    project: rule.project,
+    query: ruleQuery(rule) || undefined,
+    ...range,
+    limit,
+  });
+  return issues.length >= limit ? { value: issues.length, capped: true } : { value: issues.length };
+}
+
+async function measureRule(client: SentryClient, rule: CheckRule, tz: string | undefined): Promise<RuleValue> {
+  const window = (since: string) => resolveTimeRange({ since: rule.since ?? since, tz });
+
+  switch (rule.metric) {
+    case 'new-issues': {
+      if (rule.since) return countIssues(client, rule, window(rule.since));
+
+      // Everything since the release went out
+      const release = await client.getRelease(rule.release!);
+      return countIssues(client, rule, {
+        start: toApiTime(releaseStart(release)),
+        end: toApiTime(Date.now()),
+      });
+    }
+    case 'issues':
+      return countIssues(client, rule, window('24h'));
+    case 'events': {
+      const resolved = rule.issue ? await client.resolveIssue(rule.issue) : undefined;
+      if (resolved) warnOrgMismatch(resolved);
+      const issueId = resolved?.issueId;
+      const query = ruleQuery(rule, issueId);
+      const result = await client.searchEvents({
+        fields: ['count()'],
+        query: query || undefined,
+        ...window('24h'),
+        dataset: 'errors',
+        limit: 1,
+      });
+      return { value: Number(result.data[0]?.['count()']) || 0 };
+    }
+  }
+}
+
+export async function checkCommand(options: CheckOptions): Promise<void> {
+  let rules: CheckRule[];
+  const tz = options.tz ?? getTimeZone();
+
+  try {
+    if (options.format !== 'table' && options.format !== 'junit') getFormatter(options.format);
+    validateFields(options.fields);
+    if (tz) validateTimeZone(tz);
+
+    rules = [
+      ...(options.file ? loadRuleFile(options.file) : []),
+      ...(options.rule || []).map((spec, i) => parseRule(spec, `--rule ${i + 1}`)),
+    ];
+    if (rules.length === 0) {
+      throw new Error('No rules to check. Pass --rule or --file.');
+    }
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`Error: ${error.message}`);
+    } else {
+      console.error('An unexpected error occurred');
+    }
+    process.exit(CHECK_EXIT_CODES.usage);
+  }
+
+  const config = loadConfig(CHECK_EXIT_CODES.error);
+  const client = new SentryClient(config);
+
+  const results: CheckResult[] = [];
+  let authError: string | undefined;
+
+  for (const rule of rules) {
+    const started = Date.now();
+
+    // A rejected token fails every rule the same way, so stop asking
+    if (authError) {
+      results.push({ rule, status: 'error', value: null, error: authError, durationMs: 0 });
+      continue;
+    }
+
+    try {
+      const { value, capped } = await measureRule(client, rule, tz);
+      results.push({
+        rule,
+        status: ruleFails(rule, value) ? 'fail' : 'pass',
+        value,
+        ...(capped ? { capped } : {}),
+        durationMs: Date.now() - started,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'An unexpected error occurred';
+      if (error instanceof SentryApiError && error.statusCode === 401) authError = message;
+      results.push({ rule, status: 'error', value: null, error: message, durationMs: Date.now() - started });
+    }
+  }
+
+  const report = summarizeCheck(results);
+  try {
+    console.log(formatCheckReport(report, options.format, {
+      redact: options.redact,
+      fields: options.fields,
+    }));
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : 'An unexpected error occurred'}`);
+    process.exit(CHECK_EXIT_CODES.error);
+  }
+
+  // Set rather than exit, so piped output is flushed first
+  process.exitCode = CHECK_EXIT_CODES[report.status];
+}
@@ -0,0 +1,70 @@
+import { SentryClient } from '../api/client.js';
+import { loadConfig } from '../config.js';
+import { formatEventDiff } from '../utils/format.js';
+import { diffEvents } from '../utils/diff.js';
+import { fetchRefEvent, warnOrgMismatch } from '../utils/refs.js';
+import type { DiffOptions, SentryEvent } from '../types.js';
+
+type LabeledEvent = { event: SentryEvent; label: string };
+
+export async function diffCommand(
+  refs: string[],
+  options: DiffOptions
+): Promise<void> {
+  const config = loadConfig();
+  const client = new SentryClient(config);
+
+  try {
+    let before: LabeledEvent;
+    let after: LabeledEvent;
+
+    // `slog diff ISSUE-123 --latest-vs-first` reads naturally too
+    const rest = [...refs];
+    const issue = options.issue ?? (options.latestVsFirst ? rest.shift() : undefined);
+
+    if (issue) {
+      const ref = await client.resolveIssue(issue);
+      warnOrgMismatch(ref);
+      const issueEvent = async (id: string, name: string): Promise<LabeledEvent> => {
+        const event = await client.getEvent(ref.issueId, id);
+        return { event, label: `${ref.issue.shortId} ${name} event:${event.eventID}` };
+      };
+
+      if (options.latestVsFirst) {
+        if (rest.length > 0) {
+          throw new Error('--latest-vs-first compares the issue\'s own events; drop the event arguments');
+        }
+        // "oldest" and "latest" are event aliases the issue events endpoint accepts
+        before = await issueEvent('oldest', 'first');
+        after = await issueEvent('latest', 'latest');
+      } else {
+        if (rest.length !== 1) {
+          throw new Error('With --issue, pass one event to compare against the issue\'s typical event');
+        }
+        before = await issueEvent('recommended', 'typical');
+        after = await fetchRefEvent(client, rest[0], options.project);
+      }
+    } else {
+      if (refs.length !== 2) {
+        throw new Error('Pass two events to compare, or --issue <id> --latest-vs-first');
+      }
+      [before, after] = await Promise.all(
+        refs.map((ref) => fetchRefEvent(client, ref, options.project))
+      );
+    }
+
+    const diff = diffEvents(before, after);
+
+    console.log(formatEventDiff(diff, options.format, {
+      redact: options.redact,
+      fields: options.fields,
+    }));
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`Error: ${error.message}`);
+    } else {
+      console.error('An unexpected error occurred');
+    }
+    process.exit(1);
+  }
+}
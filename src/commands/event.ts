@@ -0,0 +1,41 @@
+import { SentryClient } from '../api/client.js';
+import { loadConfig } from '../config.js';
+import { formatEvent } from '../utils/format.js';
+import type { EventOptions } from '../types.js';
+import chalk from 'chalk';
+
+export async function eventCommand(
+  eventId: string,
+  options: EventOptions
+): Promise<void> {
+  const config = loadConfig();
+  const client = new SentryClient(config);
+
+  try {
+    // Event URLs carry the event ID in the path
+    const id = eventId.match(/\/events\/([^/?#]+)/)?.[1] ?? eventId;
+
+    const found = await client.findEvent(id, { project: options.project });
+
+    if (options.format === 'table') {
+      const location = [found.projectSlug && `project:${found.projectSlug}`, `issue:${found.issueId}`]
+        .filter(Boolean)
+        .join(' ');
+      console.log(chalk.gray(location) + '\n');
+    }
+
+    const output = formatEvent(found.event, options.format, {
+      redact: options.redact,
+      fields: options.fields,
+    });
+
+    console.log(output);
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`Error: ${error.message}`);
+    } else {
+      console.error('An unexpected error occurred');
+    }
+    process.exit(1);
+  }
+}
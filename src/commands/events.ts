@@ -1,6 +1,9 @@
 import { SentryClient } from '../api/client.js';
-import { loadConfig } from '../config.js';
+import { loadConfig, getTimeZone } from '../config.js';
 import { formatEvents, formatEventDetail } from '../utils/format.js';
+import { resolveTimeRange } from '../utils/time.js';
+import { warnOrgMismatch } from '../utils/refs.js';
+import { STACK_MODES } from '../utils/stack.js';
 import type { EventsOptions } from '../types.js';
 
 export async function eventsCommand(
@@ -11,22 +14,56 @@ export async function eventsCommand(
   const client = new SentryClient(config);
 
   try {
+    if (options.stack && !STACK_MODES.includes(options.stack)) {
+      throw new Error(`Invalid --stack mode "${options.stack}". Use one of: ${STACK_MODES.join(', ')}`);
+    }
+
+    const range = resolveTimeRange({
+      since: options.since,
+      start: options.start,
+      end: options.end,
+      tz: options.tz ?? getTimeZone(),
+    });
+    const ref = await client.resolveIssue(issueId);
+    warnOrgMismatch(ref);
+
+    // Event URLs point at a single event, show just that one
+    if (ref.eventId) {
+      const event = ref.eventId === 'latest'
+        ? await client.getLatestEvent(ref.issueId)
+        : await client.getEvent(ref.issueId, ref.eventId);
+      const output = formatEvents([event], options.format, {
+        redact: options.redact,
+        fields: options.fields,
+        columns: options.columns,
+        template: options.template,
+        expand: options.expand,
+        stack: options.stack,
+      });
+      console.log(output);
+      return;
+    }
+
     // Fetch events for the issue
-    const events = await client.getIssueEvents(issueId, {
+    const events = await client.getIssueEvents(ref.issueId, {
       limit: options.limit,
       full: options.expand,
+      ...range,
     });
 
     // If expand is requested but we didn't get full event data,
     // fetch each event individually
     if (options.expand && events.length > 0 && !events[0].entries) {
       const fullEvents = await Promise.all(
-        events.map((e) => client.getEvent(issueId, e.eventID))
+        events.map((e) => client.getEvent(ref.issueId, e.eventID))
       );
       const output = formatEvents(fullEvents, options.format, {
         redact: options.redact,
         fields: options.fields,
+        columns: options.columns,
+        template: options.template,
         expand: true,
+        stack: options.stack,
       });
       console.log(output);
       return;
@@ -35,7 +72,10 @@ export async function eventsCommand(
     const output = formatEvents(events, options.format, {
       redact: options.redact,
       fields: options.fields,
+      columns: options.columns,
+      template: options.template,
       expand: options.expand,
+      stack: options.stack,
     });
 
     console.log(output);
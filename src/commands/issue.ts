@@ -0,0 +1,51 @@
+import { SentryClient } from '../api/client.js';
+import { loadConfig } from '../config.js';
+import { formatIssueDetail } from '../utils/format.js';
+import { warnOrgMismatch } from '../utils/refs.js';
+import type { IssueOptions } from '../types.js';
+
+const DEFAULT_TAG_KEYS = [
+  'environment',
+  'release',
+  'browser',
+  'os',
+  'runtime',
+  'device',
+  'url',
+  'transaction',
+  'server_name',
+  'user',
+];
+
+export async function issueCommand(
+  issueId: string,
+  options: IssueOptions
+): Promise<void> {
+  const config = loadConfig();
+  const client = new SentryClient(config);
+
+  try {
+    const tagKeys = options.tags
+      ? options.tags.split(',').map((t) => t.trim()).filter(Boolean)
+      : DEFAULT_TAG_KEYS;
+
+    const ref = await client.resolveIssue(issueId);
+    warnOrgMismatch(ref);
+    const issue = ref.detail ?? await client.getIssue(ref.issueId);
+    const tags = await client.getIssueTags(issue.id, { keys: tagKeys, limit: 5 });
+
+    const output = formatIssueDetail(issue, tags, options.format, {
+      redact: options.redact,
+      fields: options.fields,
+    });
+
+    console.log(output);
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`Error: ${error.message}`);
+    } else {
+      console.error('An unexpected error occurred');
+    }
+    process.exit(1);
+  }
+}
@@ -1,54 +1,86 @@
 import { SentryClient } from '../api/client.js';
-import { loadConfig } from '../config.js';
+import { loadConfig, getTimeZone } from '../config.js';
 import { formatIssues } from '../utils/format.js';
-import type { IssuesOptions } from '../types.js';
+import { withTrend, sortByTrend } from '../utils/trend.js';
+import { resolveTimeRange } from '../utils/time.js';
+import { buildQuery, explainQuery } from '../utils/query.js';
+import type { IssueSort, IssuesOptions, StatsPeriod } from '../types.js';
 
-// Parse time string to statsPeriod format (e.g., "24h", "7d", "1h")
-function parseTimePeriod(since: string | undefined): string | undefined {
-  if (!since) return undefined;
+// --sort values Sentry can sort by; "trend" is computed from the stats series
+const API_SORTS: Record<Exclude<IssueSort, 'trend'>, string> = {
+  freq: 'freq',
+  new: 'new',
+  date: 'date',
+  users: 'user',
+};
 
-  // Already in correct format
-  if (/^\d+[hdwm]$/.test(since)) {
-    return since;
-  }
-
-  // Handle common variations
-  const match = since.match(/^(\d+)\s*(hours?|days?|weeks?|minutes?)$/i);
-  if (match) {
-    const value = match[1];
-    const unit = match[2].toLowerCase();
-    if (unit.startsWith('hour')) return `${value}h`;
-    if (unit.startsWith('day')) return `${value}d`;
-    if (unit.startsWith('week')) return `${value}w`;
-    if (unit.startsWith('minute')) return `${value}m`;
-  }
+const STATS_PERIODS = ['24h', '14d', 'none'];
 
-  return since;
-}
+// --sort trend ranks this many of the busiest issues, not just one page
+const TREND_CANDIDATES = 100;
 
 export async function issuesCommand(options: IssuesOptions): Promise<void> {
   const config = loadConfig();
   const client = new SentryClient(config);
 
   try {
-    // Build the query
-    let query = options.query || '';
+    // --project selects the endpoint, so it isn't merged into the query
+    const query = buildQuery(options.query, {
+      level: options.level,
+      status: options.status,
+      assigned: options.assigned,
+      release: options.release,
+      env: options.env,
+      tag: options.tag,
+    }, { dataset: 'issues' });
 
-    // Add environment to query if specified
-    if (options.env && !query.includes('environment:')) {
-      query = query ? `${query} environment:${options.env}` : `environment:${options.env}`;
+    if (options.explain) {
+      console.log(explainQuery(query, { dataset: 'issues' }));
+      return;
+    }
+
+    const sort = options.sort;
+    if (sort && sort !== 'trend' && !Object.hasOwn(API_SORTS, sort)) {
+      throw new Error(`Invalid sort "${sort}". Use one of: trend, ${Object.keys(API_SORTS).join(', ')}`);
+    }
+    if (options.stats && !STATS_PERIODS.includes(options.stats)) {
+      throw new Error(`Invalid stats period "${options.stats}". Use one of: ${STATS_PERIODS.join(', ')}`);
     }
 
-    const issues = await client.getIssues({
+    const range = resolveTimeRange({
+      since: options.since ?? (options.start || options.end ? undefined : '24h'),
+      start: options.start,
+      end: options.end,
+      tz: options.tz ?? getTimeZone(),
+    });
+
+    // Trend sorting needs a series even when the table doesn't show one
+    const stats: StatsPeriod | undefined = options.stats === 'none'
+      ? (sort === 'trend' ? '24h' : undefined)
+      : options.stats || '24h';
+
+    let issues = await client.getIssues({
       project: options.project,
       query: query || undefined,
-      statsPeriod: parseTimePeriod(options.since),
-      limit: options.limit,
+      ...range,
+      limit: sort === 'trend' ? Math.max(options.limit, TREND_CANDIDATES) : options.limit,
+      groupStatsPeriod: stats,
+      sort: sort === 'trend' ? API_SORTS.freq : sort ? API_SORTS[sort] : undefined,
     });
 
+    if (stats) {
+      issues = issues.map((issue) => withTrend(issue, stats));
+    }
+    if (sort === 'trend') {
+      issues = sortByTrend(issues).slice(0, options.limit);
+    }
+
     const output = formatIssues(issues, options.format, {
+      stats: options.stats === 'none' ? undefined : stats,
       redact: options.redact,
       fields: options.fields,
+      columns: options.columns,
+      template: options.template,
     });
 
     console.log(output);
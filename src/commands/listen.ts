@@ -0,0 +1,139 @@
+import { createServer } from 'node:http';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { getClientSecret } from '../config.js';
+import { formatTailEvent, formatTailIssue, getFormatter, validateFields } from '../utils/format.js';
+import { parseWebhook, verifyWebhookSignature } from '../utils/webhook.js';
+import type { ListenOptions } from '../types.js';
+import chalk from 'chalk';
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        // Stop reading but keep the socket, so the 413 can still be sent
+        req.off('data', onData);
+        req.pause();
+        reject(new Error('Payload too large'));
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on('data', onData);
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+}
+
+function reply(res: ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ status, message }));
+}
+
+export async function listenCommand(options: ListenOptions): Promise<void> {
+  const secret = options.secret || getClientSecret();
+
+  if (!secret && !options.insecure) {
+    console.error('Error: No client secret configured for webhook verification.');
+    console.error('');
+    console.error('Set SENTRY_CLIENT_SECRET (environment or config file) to your integration\'s');
+    console.error('client secret, or pass --insecure to accept unsigned payloads for local testing.');
+    process.exit(1);
+  }
+
+  try {
+    if (options.format !== 'table') getFormatter(options.format);
+    validateFields(options.fields);
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+
+  // Tabular formats (csv, tsv, markdown) print their header once, before the first record
+  let headerPending = true;
+
+  const server = createServer(async (req, res) => {
+    if (req.method !== 'POST') {
+      reply(res, 405, 'Only POST is supported');
+      return;
+    }
+
+    let body: string;
+    try {
+      body = await readBody(req);
+    } catch (error) {
+      // Reply first, then drop the rest of the upload with the connection
+      res.setHeader('Connection', 'close');
+      res.on('finish', () => req.destroy());
+      reply(res, 413, error instanceof Error ? error.message : 'Invalid body');
+      return;
+    }
+
+    const signature = req.headers['sentry-hook-signature'];
+    if (secret && !verifyWebhookSignature(body, Array.isArray(signature) ? signature[0] : signature, secret)) {
+      console.error(chalk.red('Rejected webhook with invalid signature'));
+      reply(res, 401, 'Invalid signature');
+      return;
+    }
+
+    const resource = String(req.headers['sentry-hook-resource'] || 'unknown');
+
+    let message;
+    try {
+      message = parseWebhook(resource, body);
+    } catch {
+      reply(res, 400, 'Invalid JSON payload');
+      return;
+    }
+
+    // Acknowledge quickly; Sentry retries slow or failed deliveries
+    reply(res, 200, 'ok');
+
+    // A payload that can't be rendered is reported; the server keeps going
+    try {
+      if (message.kind === 'issue') {
+        console.log(formatTailIssue(message.issue, message.action, options.format, {
+          redact: options.redact,
+          fields: options.fields,
+          header: headerPending,
+        }));
+        headerPending = false;
+      } else if (message.kind === 'event') {
+        console.log(formatTailEvent(message.event, options.format, {
+          redact: options.redact,
+          fields: options.fields,
+          header: headerPending,
+        }));
+        headerPending = false;
+      } else {
+        console.error(chalk.gray(`Ignored ${message.resource} webhook (${message.action})`));
+      }
+    } catch (error) {
+      console.error(chalk.red(`Could not print ${resource} webhook: ${error instanceof Error ? error.message : error}`));
+    }
+  });
+
+  server.on('error', (error) => {
+    console.error(`Error: ${error.message}`);
+    process.exit(1);
+  });
+
+  server.listen(options.port, options.host, () => {
+    console.error(chalk.gray(`Listening for Sentry webhooks on http://${options.host}:${options.port}`));
+    if (!secret) {
+      console.error(chalk.yellow('Warning: signature verification is disabled (--insecure)'));
+    }
+    console.error(chalk.gray('Press Ctrl+C to stop.\n'));
+  });
+
+  process.on('SIGINT', () => {
+    console.error(chalk.gray('\nStopped listening.'));
+    server.close();
+    process.exit(0);
+  });
+}
@@ -0,0 +1,106 @@
+import { spawn } from 'node:child_process';
+import { basename } from 'node:path';
+import { SentryClient } from '../api/client.js';
+import { loadConfig } from '../config.js';
+import { normalizeStack, frameLocation } from '../utils/stack.js';
+import { loadRepoMapping, mapStackToRepo, formatLocalLocation } from '../utils/repo.js';
+import { fetchRefEvent } from '../utils/refs.js';
+import type { LocalLocation, NormalizedFrame, OpenOptions } from '../types.js';
+import chalk from 'chalk';
+
+// Editors that take path:line:col, and how to ask for it
+const LOCATION_ARGS: Record<string, (location: string) => string[]> = {
+  code: (location) => ['-g', location],
+  'code-insiders': (location) => ['-g', location],
+  codium: (location) => ['-g', location],
+  cursor: (location) => ['-g', location],
+  subl: (location) => [location],
+  zed: (location) => [location],
+  hx: (location) => [location],
+};
+
+function editorArgs(editor: string, local: LocalLocation): string[] {
+  const withPosition = LOCATION_ARGS[basename(editor)];
+  if (withPosition) {
+    const line = local.lineNo ? `:${local.lineNo}` : '';
+    const col = local.lineNo && local.colNo ? `:${local.colNo}` : '';
+    return withPosition(`${local.path}${line}${col}`);
+  }
+  // vi, vim, nvim, nano, emacs and most others accept +line
+  return local.lineNo ? [`+${local.lineNo}`, local.path] : [local.path];
+}
+
+function launchEditor(local: LocalLocation): Promise<number> {
+  const [editor, ...editorFlags] = (process.env.VISUAL || process.env.EDITOR || 'vi').split(/\s+/);
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(editor, [...editorFlags, ...editorArgs(editor, local)], { stdio: 'inherit' });
+    child.on('error', (error) => reject(new Error(`Could not start editor "${editor}": ${error.message}`)));
+    child.on('exit', (code) => resolve(code ?? 0));
+  });
+}
+
+function pickFrame(frames: NormalizedFrame[], index: number | undefined): NormalizedFrame {
+  if (index !== undefined) {
+    const frame = frames.find((f) => f.index === index);
+    if (!frame) {
+      throw new Error(`No frame #${index}. Frames run from #0 to #${frames.length - 1}`);
+    }
+    if (!frame.local) {
+      throw new Error(`Frame #${index} (${frameLocation(frame)}) was not found in the local checkout`);
+    }
+    return frame;
+  }
+
+  // Default to the most recent in-app frame that exists locally
+  const frame = [...frames].reverse().find((f) => f.local);
+  if (!frame) {
+    throw new Error('None of the in-app frames were found in the local checkout. Check --repo or add --path-map rules');
+  }
+  return frame;
+}
+
+export async function openCommand(
+  ref: string,
+  options: OpenOptions
+): Promise<void> {
+  const config = loadConfig();
+  const client = new SentryClient(config);
+
+  try {
+    const repo = loadRepoMapping(options.repo, options.pathMap);
+    if (!repo) {
+      throw new Error('No local checkout configured. Pass --repo <path> or set SLOG_REPO');
+    }
+
+    const { event } = await fetchRefEvent(client, ref, options.project);
+    const stack = mapStackToRepo(normalizeStack(event), repo);
+
+    // The outermost exception, or the crashed thread when there is none
+    const exceptionFrames = stack.exceptions[stack.exceptions.length - 1]?.frames;
+    const frames = exceptionFrames?.length
+      ? exceptionFrames
+      : stack.threads.find((t) => t.crashed || t.current)?.frames ?? [];
+    if (frames.length === 0) {
+      throw new Error(`Event ${event.eventID} has no stacktrace`);
+    }
+
+    const frame = pickFrame(frames, options.frame);
+    const local = frame.local as LocalLocation;
+
+    console.error(chalk.gray(`Opening ${formatLocalLocation(local)} in ${frame.function || '?'}`));
+    if (local.drift) {
+      console.error(chalk.yellow('Warning: local source differs from this event (code has changed since)'));
+    }
+
+    const code = await launchEditor(local);
+    if (code !== 0) process.exit(code);
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`Error: ${error.message}`);
+    } else {
+      console.error('An unexpected error occurred');
+    }
+    process.exit(1);
+  }
+}
@@ -0,0 +1,159 @@
+import { SentryClient } from '../api/client.js';
+import { loadConfig } from '../config.js';
+import { formatReleases, formatReleaseReport } from '../utils/format.js';
+import { buildQuery, formatQueryFilter } from '../utils/query.js';
+import {
+  findNextRelease,
+  findPreviousRelease,
+  releaseStart,
+  releaseWindows,
+  compareReleaseIssues,
+} from '../utils/release.js';
+import type { ReleaseWindow } from '../utils/release.js';
+import { toApiTime } from '../utils/time.js';
+import type { ReleasesOptions, ReleaseOptions, ReleaseReport } from '../types.js';
+
+// Releases come newest first. Pages are read until one older than the
+// release is found, so both its neighbours are in the list, up to this many.
+const RELEASE_SCAN_LIMIT = 1000;
+
+function releaseFilter(key: string, version: string): string {
+  return formatQueryFilter({ key, negated: false, operator: '', values: [version], list: false });
+}
+
+// Error events per issue in one release while it was live
+async function countByIssue(
+  client: SentryClient,
+  issueIds: string[],
+  version: string,
+  window: ReleaseWindow,
+  options: ReleaseOptions
+): Promise<Map<string, number>> {
+  if (issueIds.length === 0) return new Map();
+
+  const query = buildQuery(`${releaseFilter('release', version)} issue.id:[${issueIds.join(', ')}]`, {
+    env: options.env,
+    project: options.project,
+  }, { dataset: 'events' });
+
+  const result = await client.searchEvents({
+    fields: ['issue.id', 'count()'],
+    query,
+    start: toApiTime(window.start),
+    end: toApiTime(window.end),
+    dataset: 'errors',
+    limit: issueIds.length,
+  });
+
+  return new Map(result.data.map((row) => [String(row['issue.id']), Number(row['count()']) || 0]));
+}
+
+/**
+ * New issues, regressions and top issues of a release, with each top
+ * issue's event rate compared against the release before it.
+ */
+export async function buildReleaseReport(
+  client: SentryClient,
+  version: string,
+  options: ReleaseOptions
+): Promise<ReleaseReport> {
+  const release = await client.getRelease(version);
+
+  // A release shared by several projects is compared org-wide unless
+  // --project narrows it down
+  const project = options.project
+    ?? (release.projects?.length === 1 ? release.projects[0].slug : undefined);
+
+  const start = releaseStart(release);
+  const releases = await client.getReleases({
+    project,
+    limit: RELEASE_SCAN_LIMIT,
+    until: (r) => r.version !== release.version && releaseStart(r) < start,
+  });
+  const previous = findPreviousRelease(releases, release);
+  const next = findNextRelease(releases, release);
+  const windows = releaseWindows(release, previous, next);
+
+  const issueQuery = (query: string) => buildQuery(query, { env: options.env }, { dataset: 'issues' });
+  const issueOptions = {
+    project,
+    start: toApiTime(windows.current.start),
+    end: toApiTime(windows.current.end),
+    limit: options.limit,
+    sort: 'freq',
+  };
+
+  const [newIssues, regressions, top] = await Promise.all([
+    client.getIssues({ ...issueOptions, query: issueQuery(releaseFilter('firstRelease', release.version)) }),
+    client.getIssues({ ...issueOptions, query: issueQuery(`is:regressed ${releaseFilter('release', release.version)}`) }),
+    client.getIssues({ ...issueOptions, query: issueQuery(releaseFilter('release', release.version)) }),
+  ]);
+
+  const countOptions = { ...options, project };
+  const ids = top.map((issue) => issue.id);
+  const [counts, previousCounts] = await Promise.all([
+    countByIssue(client, ids, release.version, windows.current, countOptions),
+    previous && windows.previous
+      ? countByIssue(client, ids, previous.version, windows.previous, countOptions)
+      : Promise.resolve(undefined),
+  ]);
+
+  return {
+    release,
+    previous,
+    project,
+    newIssues,
+    regressions,
+    topIssues: compareReleaseIssues(top, counts, previousCounts, windows),
+  };
+}
+
+export async function releasesCommand(options: ReleasesOptions): Promise<void> {
+  const config = loadConfig();
+  const client = new SentryClient(config);
+
+  try {
+    const releases = await client.getReleases({
+      project: options.project,
+      query: options.query,
+      environment: options.env,
+      limit: options.limit,
+    });
+
+    const output = formatReleases(releases, options.format, {
+      redact: options.redact,
+      fields: options.fields,
+    });
+
+    console.log(output);
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`Error: ${error.message}`);
+    } else {
+      console.error('An unexpected error occurred');
+    }
+    process.exit(1);
+  }
+}
+
+export async function releaseCommand(version: string, options: ReleaseOptions): Promise<void> {
+  const config = loadConfig();
+  const client = new SentryClient(config);
+
+  try {
+    const report = await buildReleaseReport(client, version, options);
+    const output = formatReleaseReport(report, options.format, {
+      redact: options.redact,
+      fields: options.fields,
+    });
+
+    console.log(output);
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`Error: ${error.message}`);
+    } else {
+      console.error('An unexpected error occurred');
+    }
+    process.exit(1);
+  }
+}
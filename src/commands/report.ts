@@ -0,0 +1,148 @@
+import { SentryClient } from '../api/client.js';
+import { loadConfig, getTimeZone } from '../config.js';
+import { formatDigest, getFormatter } from '../utils/format.js';
+import { buildQuery, formatQueryFilter } from '../utils/query.js';
+import { withTrend } from '../utils/trend.js';
+import { parseDuration, resolveTimeRange, toApiTime } from '../utils/time.js';
+import type {
+  Digest,
+  DigestCount,
+  DigestTotals,
+  DiscoverRow,
+  ReportOptions,
+  SentryIssue,
+  StatsPeriod,
+} from '../types.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// New, regressed and now resolved issues are counted up to this many
+const COUNT_LIMIT = 1000;
+
+// Per-project and per-environment rows
+const MAX_GROUPS = 100;
+
+const TOTAL_FIELDS = ['count()', 'count_unique(user)', 'count_unique(issue)'];
+
+function toTotals(row: DiscoverRow | undefined): Omit<DigestTotals, 'name'> {
+  return {
+    events: Number(row?.['count()']) || 0,
+    users: Number(row?.['count_unique(user)']) || 0,
+    issues: Number(row?.['count_unique(issue)']) || 0,
+  };
+}
+
+function toCount(issues: SentryIssue[]): DigestCount {
+  return issues.length >= COUNT_LIMIT ? { count: issues.length, capped: true } : { count: issues.length };
+}
+
+/**
+ * Gather the digest: totals from Discover, issue lists from issue search.
+ * Trends compare the recent half of each issue's stats series with the
+ * half before it, so a 7 day digest compares this week with last week.
+ */
+export async function buildDigest(
+  client: SentryClient,
+  org: string,
+  options: ReportOptions,
+  now: number = Date.now()
+): Promise<Digest> {
+  const range = resolveTimeRange({
+    since: options.since ?? (options.start || options.end ? undefined : '7d'),
+    start: options.start,
+    end: options.end,
+    tz: options.tz ?? getTimeZone(),
+  }, now);
+
+  // Absolute bounds, for the firstSeen filter and the report header
+  const end = range.end ? Date.parse(`${range.end}Z`) : now;
+  const start = range.start ? Date.parse(`${range.start}Z`) : end - parseDuration(range.statsPeriod!);
+  const window = { start: toApiTime(start), end: toApiTime(end) };
+  const statsPeriod: StatsPeriod = end - start <= DAY_MS ? '24h' : '14d';
+
+  const flags = { env: options.env, level: options.level };
+  const issueQuery = (query: string) => buildQuery(query, flags, { dataset: 'issues' });
+  const eventQuery = buildQuery('', { ...flags, project: options.project }, { dataset: 'events' });
+
+  const findIssues = (query: string, sort: string, limit: number, stats = true) =>
+    client.getIssues({
+      project: options.project,
+      query: issueQuery(query),
+      ...window,
+      sort,
+      limit,
+      groupStatsPeriod: stats ? statsPeriod : undefined,
+    }).then((list) => (stats ? list.map((issue) => withTrend(issue, statsPeriod)) : list));
+
+  const totals = (groupBy?: string) =>
+    client.searchEvents({
+      fields: groupBy ? [groupBy, ...TOTAL_FIELDS] : TOTAL_FIELDS,
+      sort: ['-count()'],
+      query: eventQuery || undefined,
+      ...window,
+      dataset: 'errors',
+      limit: groupBy ? MAX_GROUPS : 1,
+    });
+
+  const firstSeen = [
+    formatQueryFilter({ key: 'firstSeen', negated: false, operator: '>=', values: [window.start], list: false }),
+    formatQueryFilter({ key: 'firstSeen', negated: false, operator: '<=', values: [window.end], list: false }),
+  ].join(' ');
+
+  const [overall, byProject, byEnvironment, topByEvents, topByUsers, newIssues, regressed, resolved] =
+    await Promise.all([
+      totals(),
+      totals('project'),
+      totals('environment'),
+      findIssues('is:unresolved', 'freq', options.limit),
+      findIssues('is:unresolved', 'user', options.limit),
+      findIssues(firstSeen, 'freq', COUNT_LIMIT),
+      findIssues('is:regressed', 'freq', COUNT_LIMIT),
+      findIssues('is:resolved', 'date', COUNT_LIMIT, false),
+    ]);
+
+  return {
+    org,
+    generatedAt: new Date(now).toISOString(),
+    start: new Date(start).toISOString(),
+    end: new Date(end).toISOString(),
+    ...(options.project ? { project: options.project } : {}),
+    ...(options.env ? { env: options.env } : {}),
+    ...(options.level ? { level: options.level } : {}),
+    statsPeriod,
+    totals: toTotals(overall.data[0]),
+    counts: {
+      newIssues: toCount(newIssues),
+      regressed: toCount(regressed),
+      resolved: toCount(resolved),
+    },
+    projects: byProject.data.map((row) => ({ name: String(row.project ?? ''), ...toTotals(row) })),
+    environments: byEnvironment.data.map((row) => ({ name: String(row.environment || '(none)'), ...toTotals(row) })),
+    topByEvents,
+    topByUsers,
+    newIssues: newIssues.slice(0, options.limit),
+    regressed: regressed.slice(0, options.limit),
+  };
+}
+
+export async function reportCommand(options: ReportOptions): Promise<void> {
+  const config = loadConfig();
+  const client = new SentryClient(config);
+
+  try {
+    if (options.format === 'table') {
+      throw new Error('slog report writes documents: use --format markdown, html or json');
+    }
+    if (options.format !== 'html') getFormatter(options.format);
+
+    const digest = await buildDigest(client, config.org, options);
+    console.log(formatDigest(digest, options.format, { fields: options.fields }));
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`Error: ${error.message}`);
+    } else {
+      console.error('An unexpected error occurred');
+    }
+    process.exit(1);
+  }
+}
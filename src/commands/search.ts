@@ -0,0 +1,75 @@
+import chalk from 'chalk';
+import { SentryClient } from '../api/client.js';
+import { loadConfig, getTimeZone } from '../config.js';
+import { formatSearchResults, getFormatter } from '../utils/format.js';
+import { buildQuery, explainQuery } from '../utils/query.js';
+import { buildSearchFields } from '../utils/search.js';
+import { resolveTimeRange } from '../utils/time.js';
+import type { SearchOptions } from '../types.js';
+
+const DATASETS = ['discover', 'errors', 'transactions'];
+
+export async function searchCommand(options: SearchOptions): Promise<void> {
+  const config = loadConfig();
+  const client = new SentryClient(config);
+
+  try {
+    if (options.format !== 'table') getFormatter(options.format);
+    if (options.dataset && !DATASETS.includes(options.dataset)) {
+      throw new Error(`Invalid dataset "${options.dataset}". Use one of: ${DATASETS.join(', ')}`);
+    }
+
+    const query = buildQuery(options.query, {
+      level: options.level,
+      status: options.status,
+      assigned: options.assigned,
+      release: options.release,
+      env: options.env,
+      project: options.project,
+      tag: options.tag,
+    }, { dataset: 'events' });
+
+    const { fields, sort } = buildSearchFields(options);
+
+    if (options.explain) {
+      console.log(explainQuery(query, { dataset: 'events' }));
+      console.log(`\n${chalk.bold('Fields:')} ${fields.join(', ')}`);
+      if (sort.length > 0) console.log(`${chalk.bold('Order:')}  ${sort.join(', ')}`);
+      return;
+    }
+
+    const range = resolveTimeRange({
+      since: options.since ?? (options.start || options.end ? undefined : '24h'),
+      start: options.start,
+      end: options.end,
+      tz: options.tz ?? getTimeZone(),
+    });
+
+    const result = await client.searchEvents({
+      fields,
+      sort,
+      query: query || undefined,
+      ...range,
+      dataset: options.dataset,
+      limit: options.limit,
+      cursor: options.cursor,
+    });
+
+    console.log(formatSearchResults(result, options.format, {
+      redact: options.redact,
+      fields: options.fields,
+    }));
+
+    // On stderr so piped output stays clean
+    if (result.nextCursor) {
+      console.error(chalk.gray(`More results: add --cursor ${result.nextCursor}`));
+    }
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`Error: ${error.message}`);
+    } else {
+      console.error('An unexpected error occurred');
+    }
+    process.exit(1);
+  }
+}
@@ -0,0 +1,48 @@
+import { SentryClient } from '../api/client.js';
+import { loadConfig } from '../config.js';
+import { formatEventStack } from '../utils/format.js';
+import { fetchRefEvent } from '../utils/refs.js';
+import { loadRepoMapping } from '../utils/repo.js';
+import { STACK_MODES } from '../utils/stack.js';
+import type { StackOptions } from '../types.js';
+import chalk from 'chalk';
+
+export async function stackCommand(
+  ref: string,
+  options: StackOptions
+): Promise<void> {
+  const config = loadConfig();
+  const client = new SentryClient(config);
+
+  try {
+    if (!STACK_MODES.includes(options.mode)) {
+      throw new Error(`Invalid mode "${options.mode}". Use one of: ${STACK_MODES.join(', ')}`);
+    }
+
+    const repo = loadRepoMapping(options.repo, options.pathMap);
+
+    const { event, label } = await fetchRefEvent(client, ref, options.project);
+
+    if (options.format === 'table') {
+      console.log(chalk.gray(label) + '\n');
+    }
+
+    const output = formatEventStack(event, options.format, {
+      mode: options.mode,
+      vars: options.vars,
+      threads: options.threads,
+      redact: options.redact,
+      fields: options.fields,
+      repo,
+    });
+
+    console.log(output);
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`Error: ${error.message}`);
+    } else {
+      console.error('An unexpected error occurred');
+    }
+    process.exit(1);
+  }
+}
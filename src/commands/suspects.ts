@@ -0,0 +1,125 @@
+import { relative } from 'node:path';
+import { SentryClient } from '../api/client.js';
+import { loadConfig } from '../config.js';
+import { formatSuspects } from '../utils/format.js';
+import { normalizeStack } from '../utils/stack.js';
+import { loadRepoMapping, mapStackToRepo } from '../utils/repo.js';
+import { gitToplevel, blameLine } from '../utils/git.js';
+import { loadCodeowners, ownersFor } from '../utils/codeowners.js';
+import { warnOrgMismatch } from '../utils/refs.js';
+import type {
+  NormalizedFrame,
+  SuspectCommit,
+  SuspectFrame,
+  SuspectOwner,
+  SuspectReport,
+  SuspectsOptions,
+} from '../types.js';
+
+function landedBefore(commit: SuspectCommit): boolean {
+  return commit.firstSeenDelta !== undefined && commit.firstSeenDelta <= 0;
+}
+
+// Commits that landed before the issue first appeared come first, closest first
+function suspectOrder(a: SuspectCommit, b: SuspectCommit): number {
+  if (landedBefore(a) !== landedBefore(b)) return landedBefore(a) ? -1 : 1;
+  const distance = (c: SuspectCommit) => Math.abs(c.firstSeenDelta ?? Number.MAX_SAFE_INTEGER);
+  return distance(a) - distance(b);
+}
+
+export async function suspectsCommand(
+  issueRef: string,
+  options: SuspectsOptions
+): Promise<void> {
+  const config = loadConfig();
+  const client = new SentryClient(config);
+
+  try {
+    const repo = loadRepoMapping(options.repo, options.pathMap);
+    if (!repo) {
+      throw new Error('No local checkout configured. Pass --repo <path> or set SLOG_REPO');
+    }
+    const toplevel = await gitToplevel(repo.root);
+
+    const ref = await client.resolveIssue(issueRef);
+    warnOrgMismatch(ref);
+    const event = ref.eventId && ref.eventId !== 'latest'
+      ? await client.getEvent(ref.issueId, ref.eventId)
+      : await client.getLatestEvent(ref.issueId);
+
+    const stack = mapStackToRepo(normalizeStack(event), repo);
+
+    // In-app frames found locally, outermost exception first, each line once
+    const located = new Map<string, NormalizedFrame>();
+    for (const exception of [...stack.exceptions].reverse()) {
+      for (const frame of [...exception.frames].reverse()) {
+        if (!frame.local?.lineNo) continue;
+        const key = `${frame.local.path}:${frame.local.lineNo}`;
+        if (!located.has(key)) located.set(key, frame);
+      }
+    }
+
+    const codeowners = loadCodeowners(toplevel);
+    const firstSeen = new Date(ref.issue.firstSeen).getTime();
+
+    const frames: SuspectFrame[] = [];
+    for (const frame of located.values()) {
+      const local = frame.local!;
+      const path = relative(toplevel, local.path);
+      frames.push({
+        index: frame.index,
+        function: frame.function,
+        path,
+        lineNo: local.lineNo!,
+        drift: local.drift,
+        blame: await blameLine(toplevel, path, local.lineNo!),
+        owners: ownersFor(codeowners, path),
+      });
+    }
+
+    // Group frames by the commit that last touched them
+    const commits = new Map<string, SuspectCommit>();
+    for (const frame of frames) {
+      if (!frame.blame?.committed) continue;
+      const commit = commits.get(frame.blame.commit) ?? {
+        ...frame.blame,
+        firstSeenDelta: frame.blame.date ? new Date(frame.blame.date).getTime() - firstSeen : undefined,
+        frames: [],
+      };
+      commit.frames.push(frame.index);
+      commits.set(commit.commit, commit);
+    }
+
+    const owners = new Map<string, SuspectOwner>();
+    for (const frame of frames) {
+      for (const owner of frame.owners) {
+        const entry = owners.get(owner) ?? { owner, files: [] };
+        if (!entry.files.includes(frame.path)) entry.files.push(frame.path);
+        owners.set(owner, entry);
+      }
+    }
+
+    const report: SuspectReport = {
+      issueId: ref.issueId,
+      shortId: ref.issue.shortId,
+      title: ref.issue.title,
+      firstSeen: ref.issue.firstSeen,
+      eventId: event.eventID,
+      frames,
+      commits: [...commits.values()].sort(suspectOrder),
+      owners: [...owners.values()].sort((a, b) => b.files.length - a.files.length),
+    };
+
+    console.log(formatSuspects(report, options.format, {
+      redact: options.redact,
+      fields: options.fields,
+    }));
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`Error: ${error.message}`);
+    } else {
+      console.error('An unexpected error occurred');
+    }
+    process.exit(1);
+  }
+}
@@ -1,101 +1,349 @@
 import { SentryClient } from '../api/client.js';
-import { loadConfig } from '../config.js';
-import { formatTailEvent } from '../utils/format.js';
-import type { TailOptions, SentryIssue, SentryEvent } from '../types.js';
+import { loadConfig, getTimeZone } from '../config.js';
+import {
+  formatTailEvent,
+  formatAggregateSummary,
+  getFormatter,
+  parseColumns,
+  validateFields,
+} from '../utils/format.js';
+import { parseTemplate } from '../utils/template.js';
+import { checkpointPath, loadCheckpoint, saveCheckpoint } from '../utils/checkpoint.js';
+import { parseDuration, parseSince, toApiTime } from '../utils/time.js';
+import { EventHooks } from '../utils/hooks.js';
+import { buildQuery, explainQuery } from '../utils/query.js';
+import { BurstAggregator } from '../utils/aggregate.js';
+import { terminalRows } from '../utils/text.js';
+import type { TailOptions, SentryEvent, DiscoverRow } from '../types.js';
 import chalk from 'chalk';
 
+const TAIL_FIELDS = [
+  'id',
+  'timestamp',
+  'title',
+  'message',
+  'level',
+  'environment',
+  'release',
+  'culprit',
+  'platform',
+  'project',
+  'issue',
+  'issue.id',
+  'error.type',
+  'error.value',
+];
+
+// Events can be ingested a little after their timestamp, so each poll
+// re-reads this much history and relies on seenEvents to drop repeats
+const LOOKBACK_MS = 60_000;
+const PAGE_SIZE = 100;
+const MAX_PAGES_PER_POLL = 20;
+
+// Position of the newest delivered event; the event ID breaks timestamp ties
+interface HighWaterMark {
+  timestamp: number;
+  eventId: string;
+}
+
+function isAfter(timestamp: number, eventId: string, mark: HighWaterMark): boolean {
+  return timestamp > mark.timestamp || (timestamp === mark.timestamp && eventId > mark.eventId);
+}
+
+function optionalString(value: unknown): string | undefined {
+  if (Array.isArray(value)) return optionalString(value[0]);
+  if (value === null || value === undefined || value === '') return undefined;
+  return String(value);
+}
+
+// Map a Discover row onto the SentryEvent shape the formatters expect
+function eventFromRow(row: DiscoverRow): SentryEvent {
+  const tags = (['level', 'project', 'issue'] as const)
+    .filter((key) => optionalString(row[key]))
+    .map((key) => ({ key, value: optionalString(row[key])! }));
+
+  const release = optionalString(row.release);
+
+  return {
+    eventID: String(row.id),
+    id: String(row.id),
+    groupID: optionalString(row['issue.id']),
+    dateCreated: String(row.timestamp),
+    title: optionalString(row.title),
+    message: optionalString(row.message),
+    culprit: optionalString(row.culprit),
+    platform: optionalString(row.platform),
+    environment: optionalString(row.environment),
+    release: release ? { version: release } : undefined,
+    metadata: {
+      type: optionalString(row['error.type']),
+      value: optionalString(row['error.value']),
+    },
+    tags,
+  };
+}
+
+// Forget events that can no longer show up in a poll window. Anything
+// newer must stay, or the next poll would deliver it again.
+function pruneSeen(seenEvents: Map<string, number>, cutoff: number): void {
+  for (const [id, timestamp] of seenEvents) {
+    if (timestamp < cutoff) seenEvents.delete(id);
+  }
+}
+
+// Discover timestamps have whole seconds, so a floor inside a second
+// would drop the events from that second
+function wholeSecond(ms: number): number {
+  return Math.floor(ms / 1000) * 1000;
+}
+
 export async function tailCommand(options: TailOptions): Promise<void> {
   const config = loadConfig();
   const client = new SentryClient(config);
 
-  // Track seen events to avoid duplicates
-  const seenEvents = new Set<string>();
-  let lastCheck = new Date();
+  // Unresolved issues only, unless the query or --status says otherwise
+  let query = '';
+  try {
+    query = buildQuery(options.query ?? (options.status ? '' : 'is:unresolved'), {
+      level: options.level,
+      status: options.status,
+      assigned: options.assigned,
+      release: options.release,
+      env: options.env,
+      project: options.project,
+      tag: options.tag,
+    }, { dataset: 'events' });
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`Error: ${error.message}`);
+    }
+    process.exit(1);
+  }
 
-  // Build the query
-  let query = options.query || 'is:unresolved';
-  if (options.env && !query.includes('environment:')) {
-    query = `${query} environment:${options.env}`;
+  if (options.explain) {
+    console.log(explainQuery(query, { dataset: 'events' }));
+    return;
   }
 
-  console.error(chalk.gray(`Tailing events matching: ${query}`));
-  console.error(chalk.gray(`Polling every ${options.interval}s. Press Ctrl+C to stop.\n`));
+  // Event ID -> timestamp for events delivered within the lookback window
+  const seenEvents = new Map<string, number>();
+
+  // Events older than the floor are never delivered
+  let floor = wholeSecond(Date.now());
+  let mark: HighWaterMark = { timestamp: floor, eventId: '' };
+  let statePath: string | undefined;
+  let aggregator: BurstAggregator | undefined;
+  let aggregateMs = 0;
 
-  // Initial fetch to populate seen events
   try {
-    const issues = await client.getIssues({
-      project: options.project,
-      query,
-      statsPeriod: '1h',
-      limit: 10,
-    });
+    if (options.format !== 'table') getFormatter(options.format);
+    if (options.template) parseTemplate(options.template);
+    if (options.columns) parseColumns(options.columns);
+    validateFields(options.fields);
 
-    // Mark all current events as seen
-    for (const issue of issues) {
-      try {
-        const events = await client.getIssueEvents(issue.id, { limit: 5 });
-        for (const event of events) {
-          seenEvents.add(event.eventID);
-        }
-      } catch {
-        // Ignore errors for individual issues
+    // A NaN or negative value would stall dispatch or silently disable retries
+    if (options.concurrency !== undefined && !(Number.isInteger(options.concurrency) && options.concurrency > 0)) {
+      throw new Error('--concurrency must be a positive integer');
+    }
+    if (options.retries !== undefined && !(Number.isInteger(options.retries) && options.retries >= 0)) {
+      throw new Error('--retries must be a whole number, 0 or more');
+    }
+
+    if (options.spike !== undefined && !(options.spike > 0)) {
+      throw new Error('--spike must be a positive number');
+    }
+
+    if (options.aggregate) {
+      aggregateMs = parseDuration(options.aggregate);
+      aggregator = new BurstAggregator(aggregateMs, options.spike ?? 3);
+    }
+
+    statePath = options.stateFile
+      ?? (options.checkpoint ? checkpointPath(options.checkpoint) : undefined);
+    const checkpoint = statePath ? loadCheckpoint(statePath) : null;
+
+    if (checkpoint) {
+      if (checkpoint.query !== query) {
+        console.error(chalk.yellow(`Warning: checkpoint was written for query "${checkpoint.query}"`));
+      }
+      for (const [eventId, timestamp] of checkpoint.seen) {
+        seenEvents.set(eventId, timestamp);
       }
+      // Replay from the checkpoint, including late arrivals just before it
+      mark = { timestamp: Date.parse(checkpoint.timestamp), eventId: checkpoint.eventId };
+      floor = mark.timestamp - LOOKBACK_MS;
+      console.error(chalk.gray(`Resuming from ${checkpoint.timestamp} (${statePath})`));
+    }
+
+    if (options.since) {
+      floor = wholeSecond(parseSince(options.since, { tz: options.tz ?? getTimeZone() }));
+      if (floor > Date.now()) {
+        throw new Error(`Backfill start ${new Date(floor).toISOString()} is in the future`);
+      }
+      mark = { timestamp: floor, eventId: '' };
+      console.error(chalk.gray(`Backfilling from ${new Date(floor).toISOString()}`));
     }
   } catch (error) {
     if (error instanceof Error) {
-      console.error(`Error during initial fetch: ${error.message}`);
+      console.error(`Error: ${error.message}`);
     }
     process.exit(1);
   }
 
-  // Poll for new events
-  const poll = async () => {
-    try {
-      const issues = await client.getIssues({
-        project: options.project,
-        query,
-        statsPeriod: '1h',
-        limit: 25,
-      });
+  const hooks = new EventHooks({
+    exec: options.exec,
+    post: options.post,
+    concurrency: options.concurrency ?? 4,
+    retries: options.retries ?? 3,
+    failureLog: options.failureLog,
+    redact: options.redact,
+  });
 
-      // Check each issue for new events
-      for (const issue of issues) {
-        // Skip if last seen is before our last check
-        const lastSeen = new Date(issue.lastSeen);
-        if (lastSeen <= lastCheck) continue;
+  const persist = () => {
+    if (!statePath) return;
+    saveCheckpoint(statePath, {
+      version: 1,
+      query,
+      timestamp: new Date(mark.timestamp).toISOString(),
+      eventId: mark.eventId,
+      seen: [...seenEvents],
+      updatedAt: new Date().toISOString(),
+    });
+  };
 
-        try {
-          const events = await client.getIssueEvents(issue.id, { limit: 5 });
+  // On a terminal the aggregate table is redrawn in place after each poll;
+  // otherwise a summary is emitted once per window
+  const redrawInPlace = options.format === 'table' && Boolean(process.stdout.isTTY);
+  let renderedLines = 0;
 
-          for (const event of events) {
-            if (seenEvents.has(event.eventID)) continue;
+  // Tabular formats (csv, tsv, markdown) print their header once, before the first record
+  let headerPending = true;
 
-            const eventTime = new Date(event.dateCreated);
-            if (eventTime <= lastCheck) continue;
+  const renderSummary = () => {
+    if (!aggregator) return;
+    const summaries = aggregator.summarize();
+    const output = formatAggregateSummary(summaries, options.format, {
+      redact: options.redact,
+      window: options.aggregate!,
+      header: headerPending,
+    });
+    if (summaries.length > 0) headerPending = false;
+
+    if (redrawInPlace) {
+      if (renderedLines > 0) process.stdout.write(`\x1b[${renderedLines}A\x1b[J`);
+      process.stdout.write(output + '\n');
+      renderedLines = terminalRows(output, process.stdout.columns);
+    } else if (output) {
+      console.log(output);
+    }
+  };
+
+  console.error(chalk.gray(`Tailing events matching: ${query}`));
+  console.error(chalk.gray(`Polling every ${options.interval}s. Press Ctrl+C to stop.\n`));
+
+  // Read everything since the high-water mark, oldest first, until caught up.
+  // Returns false when the page cap was hit and more events are waiting.
+  const poll = async (): Promise<boolean> => {
+    const start = toApiTime(Math.max(floor, mark.timestamp - LOOKBACK_MS));
+    const end = toApiTime(Date.now());
+    let cursor: string | undefined;
+    let pages = 0;
+
+    do {
+      const { data, pagination } = await client.getOrgEvents({
+        fields: TAIL_FIELDS,
+        query,
+        sort: ['timestamp', 'id'],
+        start,
+        end,
+        dataset: 'errors',
+        perPage: PAGE_SIZE,
+        cursor,
+      });
 
-            seenEvents.add(event.eventID);
+      let delivered = 0;
+      for (const row of data.data) {
+        const eventId = String(row.id);
+        const timestamp = Date.parse(String(row.timestamp));
+        if (seenEvents.has(eventId) || timestamp < floor) continue;
 
+        const event = eventFromRow(row);
+        if (aggregator) {
+          aggregator.add(event);
+        } else {
+          // One event that can't be rendered mustn't stall the tail: report
+          // it and move on, so later polls don't trip over it again
+          try {
             const output = formatTailEvent(event, options.format, {
               redact: options.redact,
+              fields: options.fields,
+              columns: options.columns,
+              template: options.template,
+              header: headerPending,
             });
+            headerPending = false;
             console.log(output);
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            console.error(chalk.red(`Could not print event ${eventId}: ${message}`));
           }
-        } catch {
-          // Ignore errors for individual issues
         }
-      }
 
-      lastCheck = new Date();
-    } catch (error) {
-      if (error instanceof Error) {
-        console.error(chalk.red(`Poll error: ${error.message}`));
+        seenEvents.set(eventId, timestamp);
+        if (isAfter(timestamp, eventId, mark)) {
+          mark = { timestamp, eventId };
+        }
+
+        await hooks.dispatch(event);
+        delivered++;
       }
-    }
+
+      // Checkpoint only after the batch has been written out and its
+      // hooks have finished (at-least-once)
+      await hooks.drain();
+      if (delivered > 0) persist();
+
+      cursor = pagination.next?.results ? pagination.next.cursor : undefined;
+      pages++;
+    } while (cursor && pages < MAX_PAGES_PER_POLL);
+
+    pruneSeen(seenEvents, mark.timestamp - LOOKBACK_MS);
+    if (redrawInPlace) renderSummary();
+    return !cursor;
   };
 
-  // Start polling
+  // Initial poll validates the query before settling into the loop
+  let caughtUp = true;
+  try {
+    caughtUp = await poll();
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`Error during initial fetch: ${error.message}`);
+    }
+    process.exit(1);
+  }
+
+  // Schedule the next poll only after the previous one finishes,
+  // immediately while still working through a backlog
   const intervalMs = options.interval * 1000;
-  setInterval(poll, intervalMs);
+  const schedule = () => {
+    setTimeout(async () => {
+      try {
+        caughtUp = await poll();
+      } catch (error) {
+        if (error instanceof Error) {
+          console.error(chalk.red(`Poll error: ${error.message}`));
+        }
+        caughtUp = true;
+      }
+      schedule();
+    }, caughtUp ? intervalMs : 0);
+  };
+  schedule();
+
+  if (aggregator && !redrawInPlace) {
+    setInterval(renderSummary, aggregateMs);
+  }
 
   // Keep the process alive
   process.on('SIGINT', () => {
@@ -0,0 +1,156 @@
+import { SentryClient } from '../api/client.js';
+import { loadConfig } from '../config.js';
+import { formatIssues, formatTriagePlan } from '../utils/format.js';
+import { collectIssueIds } from '../utils/input.js';
+import { parseDuration } from '../utils/time.js';
+import { warnOrgMismatch } from '../utils/refs.js';
+import type {
+  IssueUpdate,
+  TriageOptions,
+  ResolveOptions,
+  IgnoreOptions,
+  BookmarkOptions,
+} from '../types.js';
+import chalk from 'chalk';
+
+// Sentry expresses ignore durations and windows in minutes
+function parseDurationMinutes(value: string): number {
+  return Math.round(parseDuration(value) / 60_000);
+}
+
+// A condition that is dropped silently would ignore the issue for good
+function checkIgnoreCondition(
+  flag: string,
+  value: number | undefined,
+  windowFlag: string,
+  window: string | undefined
+): void {
+  if (value !== undefined && !(Number.isInteger(value) && value > 0)) {
+    throw new Error(`${flag} must be a positive whole number`);
+  }
+  if (window && value === undefined) {
+    throw new Error(`${windowFlag} only applies together with ${flag}`);
+  }
+}
+
+async function runTriage(
+  action: string,
+  issueArgs: string[],
+  options: TriageOptions,
+  buildUpdate: (client: SentryClient) => Promise<IssueUpdate> | IssueUpdate
+): Promise<void> {
+  const config = loadConfig();
+  const client = new SentryClient(config);
+
+  try {
+    const issueIds = await collectIssueIds(issueArgs);
+    if (issueIds.length === 0) {
+      throw new Error('No issue IDs given. Pass them as arguments or pipe them on stdin.');
+    }
+
+    const update = await buildUpdate(client);
+
+    // Resolve first so short IDs and URLs map to numeric IDs and dry runs can show current state
+    const refs = await Promise.all(issueIds.map((id) => client.resolveIssue(id)));
+    refs.forEach(warnOrgMismatch);
+    const issues = refs.map((ref) => ref.issue);
+
+    if (options.dryRun) {
+      console.log(formatTriagePlan(issues, update, options.format, { redact: options.redact }));
+      return;
+    }
+
+    await client.updateIssues(
+      issues.map((issue) => issue.id),
+      update
+    );
+
+    const updated = await Promise.all(issues.map((issue) => client.getIssue(issue.id)));
+
+    if (options.format === 'table') {
+      const noun = updated.length === 1 ? 'issue' : 'issues';
+      console.error(chalk.green(`${action} ${updated.length} ${noun}`));
+    }
+
+    const output = formatIssues(updated, options.format, {
+      redact: options.redact,
+      fields: options.fields,
+    });
+
+    console.log(output);
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`Error: ${error.message}`);
+    } else {
+      console.error('An unexpected error occurred');
+    }
+    process.exit(1);
+  }
+}
+
+export async function resolveCommand(
+  issueIds: string[],
+  options: ResolveOptions
+): Promise<void> {
+  await runTriage('Resolved', issueIds, options, () => {
+    const update: IssueUpdate = { status: 'resolved' };
+    if (options.inRelease) {
+      update.statusDetails = { inRelease: options.inRelease };
+    } else if (options.inNextRelease) {
+      update.statusDetails = { inNextRelease: true };
+    }
+    return update;
+  });
+}
+
+export async function unresolveCommand(
+  issueIds: string[],
+  options: TriageOptions
+): Promise<void> {
+  await runTriage('Unresolved', issueIds, options, () => ({ status: 'unresolved' }));
+}
+
+export async function ignoreCommand(
+  issueIds: string[],
+  options: IgnoreOptions
+): Promise<void> {
+  await runTriage('Ignored', issueIds, options, () => {
+    const update: IssueUpdate = { status: 'ignored', statusDetails: {} };
+    const details = update.statusDetails!;
+
+    checkIgnoreCondition('--count', options.count, '--window', options.window);
+    checkIgnoreCondition('--users', options.users, '--user-window', options.userWindow);
+
+    if (options.for) {
+      details.ignoreDuration = parseDurationMinutes(options.for);
+    }
+    if (options.count) {
+      details.ignoreCount = options.count;
+      if (options.window) details.ignoreWindow = parseDurationMinutes(options.window);
+    }
+    if (options.users) {
+      details.ignoreUserCount = options.users;
+      if (options.userWindow) details.ignoreUserWindow = parseDurationMinutes(options.userWindow);
+    }
+
+    return update;
+  });
+}
+
+export async function assignCommand(
+  assignee: string,
+  issueIds: string[],
+  options: TriageOptions
+): Promise<void> {
+  await runTriage('Assigned', issueIds, options, async (client) => ({
+    assignedTo: await client.resolveAssignee(assignee),
+  }));
+}
+
+export async function bookmarkCommand(
+  issueIds: string[],
+  options: BookmarkOptions
+): Promise<void> {
+  const action = options.remove ? 'Unbookmarked' : 'Bookmarked';
+  await runTriage(action, issueIds, options, () => ({ isBookmarked: !options.remove }));
+}
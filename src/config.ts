@@ -80,6 +80,10 @@ function loadConfigValues(): { values: Record<string, string>; source: string |
   if (process.env.SENTRY_AUTH_TOKEN) values.SENTRY_AUTH_TOKEN = process.env.SENTRY_AUTH_TOKEN;
   if (process.env.SENTRY_ORG) values.SENTRY_ORG = process.env.SENTRY_ORG;
   if (process.env.SENTRY_BASE_URL) values.SENTRY_BASE_URL = process.env.SENTRY_BASE_URL;
+  if (process.env.SENTRY_CLIENT_SECRET) values.SENTRY_CLIENT_SECRET = process.env.SENTRY_CLIENT_SECRET;
+  if (process.env.SLOG_REPO) values.SLOG_REPO = process.env.SLOG_REPO;
+  if (process.env.SLOG_PATH_MAP) values.SLOG_PATH_MAP = process.env.SLOG_PATH_MAP;
+  if (process.env.SLOG_TZ) values.SLOG_TZ = process.env.SLOG_TZ;
 
   // If we got values from env, note that
   if (process.env.SENTRY_AUTH_TOKEN || process.env.SENTRY_ORG) {
@@ -89,7 +93,11 @@ function loadConfigValues(): { values: Record<string, string>; source: string |
   return { values, source };
 }
 
-export function loadConfig(): SentryConfig {
+/**
+ * Read credentials, exiting with setup help when they're missing.
+ * `exitCode` lets commands with their own exit codes (slog check) pick one.
+ */
+export function loadConfig(exitCode: number = 1): SentryConfig {
   const { values, source } = loadConfigValues();
 
   const authToken = values.SENTRY_AUTH_TOKEN;
@@ -109,13 +117,15 @@ export function loadConfig(): SentryConfig {
     console.error('  SENTRY_ORG=your-org-slug');
     console.error('  # Optional:');
     console.error('  # SENTRY_BASE_URL=https://sentry.io/api/0');
+    console.error('  # SENTRY_CLIENT_SECRET=...  (for slog listen)');
+    console.error('  # SLOG_REPO=~/src/app      (local checkout for stack/open)');
     console.error('');
     console.error('Or set environment variables:');
     console.error('  export SENTRY_AUTH_TOKEN="..."');
     console.error('  export SENTRY_ORG="..."');
     console.error('');
     console.error('Create a token at: https://sentry.io/settings/auth-tokens/');
-    process.exit(1);
+    process.exit(exitCode);
   }
 
   return { authToken, org, baseUrl };
@@ -126,6 +136,36 @@ export function getConfigSource(): string | null {
   return source;
 }
 
+/**
+ * Client secret of the Sentry integration, used to verify webhook signatures.
+ * Doesn't require API credentials, so `slog listen` works without them.
+ */
+export function getClientSecret(): string | undefined {
+  const { values } = loadConfigValues();
+  return values.SENTRY_CLIENT_SECRET || undefined;
+}
+
+/**
+ * Local checkout that stack frames are mapped onto, with any extra
+ * from=to path mapping rules. Like the client secret, no credentials needed.
+ */
+export function getRepoConfig(): { root?: string; pathMap?: string } {
+  const { values } = loadConfigValues();
+  return {
+    root: values.SLOG_REPO || undefined,
+    pathMap: values.SLOG_PATH_MAP || undefined,
+  };
+}
+
+/**
+ * Time zone for dates and wall-clock times given to --since/--start/--end,
+ * e.g. "Europe/Berlin". Unset means the system zone.
+ */
+export function getTimeZone(): string | undefined {
+  const { values } = loadConfigValues();
+  return values.SLOG_TZ || undefined;
+}
+
 export function validateConfig(config: SentryConfig): void {
   if (!config.authToken.startsWith('sntrys_') && !config.authToken.startsWith('sentry_')) {
     console.warn('Warning: Auth token format may be invalid. Expected prefix: sntrys_ or sentry_');
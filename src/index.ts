@@ -1,25 +1,249 @@
 // Main package exports
-export { SentryClient, SentryApiError } from './api/client.js';
-export { loadConfig, validateConfig, getConfigSource } from './config.js';
-export { redactObject, redactString, filterFields, filterArrayFields } from './utils/redact.js';
-export { formatIssues, formatEvents, formatEventDetail, formatTailEvent } from './utils/format.js';
+export {
+  SentryClient,
+  SentryApiError,
+  IssueNotFoundError,
+  EventNotFoundError,
+} from './api/client.js';
+export {
+  loadConfig,
+  validateConfig,
+  getConfigSource,
+  getClientSecret,
+  getRepoConfig,
+  getTimeZone,
+} from './config.js';
+export {
+  verifyWebhookSignature,
+  parseWebhook,
+  normalizeWebhookEvent,
+  normalizeWebhookIssue,
+} from './utils/webhook.js';
+export {
+  redactObject,
+  redactString,
+  redactHeaders,
+  redactQuery,
+  redactCookies,
+  filterFields,
+  filterArrayFields,
+  projectFields,
+  parseFieldSpec,
+  parseFieldPath,
+  getFieldValue,
+} from './utils/redact.js';
+export type { FieldProjection } from './utils/redact.js';
+export {
+  formatIssues,
+  formatIssueDetail,
+  formatEvents,
+  formatEvent,
+  formatEventDetail,
+  formatEventStack,
+  formatSuspects,
+  formatBreadcrumbs,
+  formatEventDiff,
+  formatSearchResults,
+  formatReleases,
+  formatReleaseReport,
+  formatCheckReport,
+  formatDigest,
+  validateFields,
+  formatTailEvent,
+  formatTriagePlan,
+  formatAggregateSummary,
+  formatTailIssue,
+  sparkline,
+  registerFormat,
+  getFormatter,
+  listFormats,
+  toYaml,
+} from './utils/format.js';
+export type { RecordFormatter, FormatContext, FormatRecord } from './utils/format.js';
+export { normalizeStack, formatStack, renderFrames, frameLocation } from './utils/stack.js';
+export type { StackRenderOptions } from './utils/stack.js';
+export {
+  createRepoMapping,
+  parsePathMap,
+  findLocalFile,
+  resolveLocalFrame,
+  mapStackToRepo,
+  formatLocalLocation,
+} from './utils/repo.js';
+export type { RepoMapping } from './utils/repo.js';
+export {
+  parseEntry,
+  parseEntries,
+  getEntry,
+  parseExceptionData,
+  parseBreadcrumbData,
+  parseRequestData,
+  parseMessageData,
+  parseThreadsData,
+  parseContexts,
+  parseTags,
+  parsePairs,
+} from './utils/entries.js';
+export { computeTrend, withTrend, sortByTrend, formatTrend } from './utils/trend.js';
+export { diffEvents, normalizeDiffValue } from './utils/diff.js';
+export { buildTimeline, describeBreadcrumb, formatOffset } from './utils/breadcrumbs.js';
+export type { BreadcrumbFilter } from './utils/breadcrumbs.js';
+export { gitToplevel, blameLine, parseBlamePorcelain } from './utils/git.js';
+export {
+  loadCodeowners,
+  parseCodeowners,
+  ownersFor,
+  codeownersPatternToRegex,
+} from './utils/codeowners.js';
+export type { CodeownersRule } from './utils/codeowners.js';
+export {
+  parseDuration,
+  formatDuration,
+  parseTime,
+  parseSince,
+  resolveTimeRange,
+  validateTimeZone,
+  toApiTime,
+} from './utils/time.js';
+export type { TimeParseOptions, TimeRangeInput } from './utils/time.js';
+export {
+  QueryError,
+  parseQuery,
+  buildQuery,
+  explainQuery,
+  formatQueryValue,
+  formatQueryFilter,
+} from './utils/query.js';
+export type { QueryDataset, QueryParseOptions } from './utils/query.js';
+export {
+  splitFieldList,
+  isAggregate,
+  buildSearchFields,
+  DEFAULT_SEARCH_FIELDS,
+} from './utils/search.js';
+export type { SearchFieldOptions } from './utils/search.js';
+export {
+  releaseStart,
+  findNextRelease,
+  findPreviousRelease,
+  releaseWindows,
+  compareReleaseIssues,
+} from './utils/release.js';
+export type { ReleaseWindow } from './utils/release.js';
+export {
+  parseRule,
+  loadRuleFile,
+  toRule,
+  describeRule,
+  ruleQuery,
+  ruleFails,
+  summarizeCheck,
+  RuleError,
+  CHECK_METRICS,
+  CHECK_EXIT_CODES,
+} from './utils/check.js';
+export { parseYaml, YamlError } from './utils/yaml.js';
 
 // Re-export types
 export type {
   SentryConfig,
   SentryIssue,
+  SentryIssueDetail,
+  StatsPeriod,
+  TrendDirection,
+  IssueTrend,
+  IssueSort,
+  TimeRange,
+  QueryOperator,
+  QueryFilter,
+  QueryText,
+  QueryBoolean,
+  QueryGroup,
+  QueryNode,
+  QueryFlags,
+  SentryRelease,
+  SentryDeploy,
+  ReleaseIssueComparison,
+  ReleaseReport,
+  CheckMetric,
+  CheckOperator,
+  CheckRule,
+  CheckStatus,
+  CheckResult,
+  CheckReport,
+  DigestTotals,
+  DigestCount,
+  Digest,
+  SentryTagValue,
+  SentryTagDistribution,
   SentryEvent,
   SentryEventEntry,
   SentryUser,
+  SentryTeam,
+  SentryShortIdLookup,
+  ResolvedIssue,
+  SentryEventIdLookup,
+  ResolvedEvent,
+  IssueStatus,
+  IssueStatusDetails,
+  IssueUpdate,
   ExceptionData,
   ExceptionValue,
   Stacktrace,
   StackFrame,
+  ThreadsData,
+  ThreadValue,
+  StackMode,
+  NormalizedFrame,
+  NormalizedException,
+  NormalizedThread,
+  NormalizedStack,
+  LocalLocation,
+  PathMapping,
+  BlameInfo,
+  SuspectFrame,
+  SuspectCommit,
+  SuspectOwner,
+  SuspectReport,
   BreadcrumbData,
   Breadcrumb,
+  TimelineEntry,
+  DiffOp,
+  EventDiffLine,
+  EventDiffSection,
+  EventDiffChange,
+  EventDiff,
   RequestData,
+  MessageData,
+  ParsedEventEntry,
+  EventTag,
+  EventContexts,
   OutputFormat,
   IssuesOptions,
+  IssueOptions,
   EventsOptions,
+  EventOptions,
+  StackOptions,
+  OpenOptions,
+  SuspectsOptions,
+  BreadcrumbsOptions,
+  DiffOptions,
+  SearchOptions,
+  SearchResult,
+  ReleasesOptions,
+  ReleaseOptions,
+  CheckOptions,
+  ReportOptions,
   TailOptions,
+  TailCheckpoint,
+  EventHookOptions,
+  AggregateSummary,
+  ListenOptions,
+  WebhookResource,
+  SentryWebhookPayload,
+  WebhookMessage,
+  TriageOptions,
+  ResolveOptions,
+  IgnoreOptions,
+  BookmarkOptions,
 } from './types.js';
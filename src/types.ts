@@ -6,6 +6,16 @@ export interface SentryConfig {
   baseUrl: string;
 }
 
+export interface ListenOptions {
+  port: number;
+  host: string;
+  secret?: string;
+  insecure?: boolean;
+  format: OutputFormat;
+  redact?: boolean;
+  fields?: string;
+}
+
 export interface SentryIssue {
   id: string;
   shortId: string;
@@ -43,7 +53,94 @@ export interface SentryIssue {
   stats?: {
     '24h'?: Array<[number, number]>;
     '14d'?: Array<[number, number]>;
+    '30d'?: Array<[number, number]>;
   };
+  permalink?: string;
+  // Computed by slog from `stats`, not part of the API response
+  trend?: IssueTrend;
+}
+
+// Which stats series to request with issues (hourly buckets or daily)
+export type StatsPeriod = '24h' | '14d';
+
+export type TrendDirection = 'rising' | 'falling' | 'new' | 'flat';
+
+// Event volume in the recent half of the stats series against the earlier half
+export interface IssueTrend {
+  direction: TrendDirection;
+  recent: number;
+  previous: number;
+  // Relative change, e.g. 1.5 for +150%; null when there was no earlier volume
+  change: number | null;
+}
+
+export interface SentryRelease {
+  version: string;
+  shortVersion?: string;
+  dateCreated: string;
+  dateReleased?: string | null;
+  // The fields below come with release list/detail responses only
+  newGroups?: number;
+  commitCount?: number;
+  deployCount?: number;
+  lastDeploy?: SentryDeploy | null;
+  firstEvent?: string | null;
+  lastEvent?: string | null;
+  projects?: Array<{ id: number; slug: string; name: string; newGroups?: number }>;
+}
+
+export interface SentryDeploy {
+  id?: string;
+  environment: string;
+  name?: string | null;
+  dateStarted?: string | null;
+  dateFinished: string;
+}
+
+// One of a release's top issues, with its event rate against the previous release
+export interface ReleaseIssueComparison {
+  issueId: string;
+  shortId: string;
+  title: string;
+  level: string;
+  count: number;
+  previousCount: number | null;
+  perHour: number;
+  previousPerHour: number | null;
+  // Relative change in events per hour; null when there's nothing to compare
+  change: number | null;
+}
+
+// Result of `slog release <version>`
+export interface ReleaseReport {
+  release: SentryRelease;
+  previous?: SentryRelease;
+  project?: string;
+  newIssues: SentryIssue[];
+  regressions: SentryIssue[];
+  topIssues: ReleaseIssueComparison[];
+}
+
+// Issue details include release info not present in list responses
+export interface SentryIssueDetail extends SentryIssue {
+  firstRelease?: SentryRelease | null;
+  lastRelease?: SentryRelease | null;
+}
+
+export interface SentryTagValue {
+  key: string;
+  name: string;
+  value: string;
+  count: number;
+  firstSeen?: string;
+  lastSeen?: string;
+}
+
+export interface SentryTagDistribution {
+  key: string;
+  name: string;
+  totalValues: number;
+  topValues: SentryTagValue[];
 }
 
 export interface SentryEvent {
@@ -120,6 +217,148 @@ export interface StackFrame {
   vars?: Record<string, unknown>;
 }
 
+export interface ThreadsData {
+  values?: ThreadValue[];
+}
+
+export interface ThreadValue {
+  id?: number | string;
+  name?: string;
+  crashed?: boolean;
+  current?: boolean;
+  stacktrace?: Stacktrace;
+}
+
+// How much of a stacktrace to render
+export type StackMode = 'full' | 'in-app' | 'short';
+
+// Flattened stack structure emitted by `slog stack --format json`
+export interface NormalizedFrame {
+  index: number;
+  filename?: string;
+  absPath?: string;
+  module?: string;
+  function?: string;
+  lineNo?: number;
+  colNo?: number;
+  inApp: boolean;
+  context?: Array<{ lineNo: number; code: string; current: boolean }>;
+  vars?: Record<string, unknown>;
+  local?: LocalLocation;
+}
+
+// Where an in-app frame lives in the local checkout given with --repo
+export interface LocalLocation {
+  path: string;
+  lineNo?: number;
+  colNo?: number;
+  // The local line differs from the event's source context
+  drift: boolean;
+}
+
+// A from=to rewrite applied to frame paths before looking them up locally
+export interface PathMapping {
+  from: string;
+  to: string;
+}
+
+export interface NormalizedException {
+  type: string;
+  value: string;
+  module?: string;
+  mechanism?: { type: string; handled: boolean; description?: string };
+  threadId?: number | string;
+  frames: NormalizedFrame[];
+}
+
+export interface NormalizedThread {
+  id?: number | string;
+  name?: string;
+  crashed: boolean;
+  current: boolean;
+  frames: NormalizedFrame[];
+}
+
+export interface NormalizedStack {
+  eventId: string;
+  exceptions: NormalizedException[];
+  threads: NormalizedThread[];
+}
+
+// The commit that last touched a line, from git blame
+export interface BlameInfo {
+  commit: string;
+  author: string;
+  email?: string;
+  date?: string;
+  summary: string;
+  // False for lines with uncommitted local changes
+  committed: boolean;
+}
+
+export interface SuspectFrame {
+  index: number;
+  function?: string;
+  path: string;
+  lineNo: number;
+  drift: boolean;
+  blame?: BlameInfo;
+  owners: string[];
+}
+
+export interface SuspectCommit extends BlameInfo {
+  // Commit date minus the issue's firstSeen, in ms (negative: landed before)
+  firstSeenDelta?: number;
+  frames: number[];
+}
+
+export interface SuspectOwner {
+  owner: string;
+  files: string[];
+}
+
+// Result of `slog suspects`: who last touched the lines in the stacktrace
+export interface SuspectReport {
+  issueId: string;
+  shortId: string;
+  title: string;
+  firstSeen: string;
+  eventId: string;
+  frames: SuspectFrame[];
+  commits: SuspectCommit[];
+  owners: SuspectOwner[];
+}
+
+export type DiffOp = ' ' | '-' | '+';
+
+export interface EventDiffLine {
+  op: DiffOp;
+  text: string;
+}
+
+// One compared part of the events (exception, frames, tags, ...)
+export interface EventDiffSection {
+  name: string;
+  lines: EventDiffLine[];
+}
+
+export interface EventDiffChange {
+  section: string;
+  key: string;
+  change: 'added' | 'removed' | 'changed';
+  before?: string;
+  after?: string;
+}
+
+// Result of `slog diff`: `changes` is what JSON output carries, `sections`
+// hold the full side-by-side shape for the unified diff view
+export interface EventDiff {
+  before: { eventId: string; label: string };
+  after: { eventId: string; label: string };
+  sections: EventDiffSection[];
+  changes: EventDiffChange[];
+}
+
 export interface BreadcrumbData {
   values?: Breadcrumb[];
 }
@@ -130,20 +369,66 @@ export interface Breadcrumb {
   message?: string;
   data?: Record<string, unknown>;
   level?: string;
+  // ISO string from the API, unix seconds in webhook payloads
+  timestamp?: string | number;
+}
+
+// One line of `slog breadcrumbs`: a breadcrumb, or the exception that ends the timeline
+export interface TimelineEntry {
+  index: number;
   timestamp?: string;
+  // Milliseconds relative to the error (negative: before it)
+  offsetMs?: number;
+  category: string;
+  type?: string;
+  level: string;
+  message: string;
+  data?: Record<string, unknown>;
 }
 
 export interface RequestData {
   url?: string;
   method?: string;
   headers?: Array<[string, string]>;
-  query?: string;
+  // The API sends [key, value] pairs; SDK payloads may send a raw string
+  query?: string | Array<[string, string]>;
+  fragment?: string;
   data?: unknown;
   cookies?: Array<[string, string]>;
   env?: Record<string, string>;
   inferredContentType?: string;
 }
 
+export interface MessageData {
+  formatted?: string;
+  message?: string;
+  params?: unknown[];
+}
+
+// Entries with their data parsed into the matching shape; see utils/entries.ts
+export type ParsedEventEntry =
+  | { type: 'exception'; data: ExceptionData }
+  | { type: 'breadcrumbs'; data: BreadcrumbData }
+  | { type: 'request'; data: RequestData }
+  | { type: 'message'; data: MessageData }
+  | { type: 'threads'; data: ThreadsData }
+  | { type: 'unknown'; entryType: string; data: unknown };
+
+export interface EventTag {
+  key: string;
+  value: string;
+}
+
+// The well-known event contexts, plus anything else the SDK sent
+export interface EventContexts {
+  browser?: { name?: string; version?: string };
+  os?: { name?: string; version?: string; build?: string; kernelVersion?: string };
+  runtime?: { name?: string; version?: string };
+  device?: { family?: string; model?: string; brand?: string; arch?: string };
+  trace?: { traceId?: string; spanId?: string; op?: string; status?: string };
+  other: Record<string, Record<string, unknown>>;
+}
+
 export interface SentryUser {
   id?: string;
   email?: string;
@@ -153,38 +438,492 @@ export interface SentryUser {
   data?: Record<string, unknown>;
 }
 
+export interface SentryShortIdLookup {
+  organizationSlug: string;
+  projectSlug: string;
+  groupId: string;
+  shortId: string;
+  group: SentryIssue;
+}
+
+// An issue reference (short ID, numeric ID or URL) resolved against the API
+export interface ResolvedIssue {
+  input: string;
+  issueId: string;
+  eventId?: string;
+  org?: string;
+  // Set when a URL names another org than SENTRY_ORG; lookups use SENTRY_ORG
+  orgMismatch?: { url: string; configured: string };
+  issue: SentryIssue;
+  // The detail view, when resolving already fetched it (numeric IDs and URLs)
+  detail?: SentryIssueDetail;
+}
+
+export interface SentryEventIdLookup {
+  organizationSlug: string;
+  projectSlug: string;
+  groupId: string;
+  eventId: string;
+  event: SentryEvent;
+}
+
+// An event ID located within the org, with the issue and project it belongs to
+export interface ResolvedEvent {
+  eventId: string;
+  issueId: string;
+  projectSlug?: string;
+  event: SentryEvent;
+}
+
+export interface SentryTeam {
+  id: string;
+  slug: string;
+  name: string;
+}
+
+export type IssueStatus = 'resolved' | 'unresolved' | 'ignored';
+
+export interface IssueStatusDetails {
+  inRelease?: string;
+  inNextRelease?: boolean;
+  ignoreDuration?: number;
+  ignoreCount?: number;
+  ignoreWindow?: number;
+  ignoreUserCount?: number;
+  ignoreUserWindow?: number;
+}
+
+export interface IssueUpdate {
+  status?: IssueStatus;
+  statusDetails?: IssueStatusDetails;
+  assignedTo?: string;
+  isBookmarked?: boolean;
+}
+
+// A row from the org events (Discover) API, keyed by requested field
+export type DiscoverRow = Record<string, unknown>;
+
+export interface DiscoverResponse {
+  data: DiscoverRow[];
+  meta?: {
+    fields?: Record<string, string>;
+    units?: Record<string, string | null>;
+  };
+}
+
+// Rows read by `slog search`, with the cursor to continue from when the
+// limit cut the results short
+export interface SearchResult {
+  fields: string[];
+  data: DiscoverRow[];
+  meta?: DiscoverResponse['meta'];
+  nextCursor?: string;
+}
+
+// Query window in Sentry's terms: a relative statsPeriod, or naive UTC start/end
+export interface TimeRange {
+  start?: string;
+  end?: string;
+  statsPeriod?: string;
+}
+
+export interface OrgEventsQuery extends TimeRange {
+  fields: string[];
+  query?: string;
+  sort?: string[];
+  environment?: string;
+  dataset?: string;
+  perPage?: number;
+  cursor?: string;
+}
+
 export interface PaginationLinks {
   next?: { cursor: string; results: boolean };
   previous?: { cursor: string; results: boolean };
 }
 
-export type OutputFormat = 'table' | 'json';
+// Parsed Sentry search query; see utils/query.ts. Offsets index into the
+// query string so errors can point at the offending token.
+export type QueryOperator = '' | '>' | '<' | '>=' | '<=';
 
-export interface IssuesOptions {
-  query?: string;
+export interface QueryFilter {
+  type: 'filter';
+  key: string;
+  negated: boolean;
+  operator: QueryOperator;
+  values: string[];
+  // Written as key:[a, b]
+  list: boolean;
+  start: number;
+  end: number;
+}
+
+export interface QueryText {
+  type: 'text';
+  value: string;
+  quoted: boolean;
+  start: number;
+  end: number;
+}
+
+export interface QueryBoolean {
+  type: 'boolean';
+  operator: 'AND' | 'OR';
+  start: number;
+  end: number;
+}
+
+export interface QueryGroup {
+  type: 'group';
+  children: QueryNode[];
+  start: number;
+  end: number;
+}
+
+export type QueryNode = QueryFilter | QueryText | QueryBoolean | QueryGroup;
+
+// Structured filters merged into --query; comma-separated values become key:[a, b]
+export interface QueryFlags {
+  level?: string;
+  status?: string;
+  assigned?: string;
+  release?: string;
   env?: string;
+  project?: string;
+  // key=value pairs from repeated --tag
+  tag?: string[];
+}
+
+// Built-in formats; anything registered with registerFormat() is also accepted
+export type OutputFormat = 'table' | 'json' | 'ndjson' | 'csv' | 'tsv' | 'markdown' | 'yaml' | (string & {});
+
+export type IssueSort = 'trend' | 'freq' | 'new' | 'date' | 'users';
+
+export interface IssuesOptions extends QueryFlags {
+  query?: string;
+  explain?: boolean;
   since?: string;
+  start?: string;
+  end?: string;
+  tz?: string;
   limit: number;
+  stats?: StatsPeriod | 'none';
+  sort?: IssueSort;
   format: OutputFormat;
   project?: string;
   redact?: boolean;
   fields?: string;
+  columns?: string;
+  template?: string;
+}
+
+export interface IssueOptions {
+  format: OutputFormat;
+  tags?: string;
+  redact?: boolean;
+  fields?: string;
 }
 
 export interface EventsOptions {
   limit: number;
+  since?: string;
+  start?: string;
+  end?: string;
+  tz?: string;
   expand: boolean;
+  stack?: StackMode;
   format: OutputFormat;
   redact?: boolean;
   fields?: string;
+  columns?: string;
+  template?: string;
 }
 
-export interface TailOptions {
+export interface StackOptions {
+  mode: StackMode;
+  vars?: boolean;
+  threads?: boolean;
+  project?: string;
+  repo?: string;
+  pathMap?: string;
+  format: OutputFormat;
+  redact?: boolean;
+  fields?: string;
+}
+
+export interface OpenOptions {
+  frame?: number;
+  project?: string;
+  repo?: string;
+  pathMap?: string;
+}
+
+export interface SuspectsOptions {
+  repo?: string;
+  pathMap?: string;
+  format: OutputFormat;
+  redact?: boolean;
+  fields?: string;
+}
+
+export interface BreadcrumbsOptions {
+  category?: string;
+  level?: string;
+  grep?: string;
+  project?: string;
+  format: OutputFormat;
+  redact?: boolean;
+  fields?: string;
+}
+
+export interface DiffOptions {
+  issue?: string;
+  latestVsFirst?: boolean;
+  project?: string;
+  format: OutputFormat;
+  redact?: boolean;
+  fields?: string;
+}
+
+export interface SearchOptions extends QueryFlags {
+  query?: string;
+  explain?: boolean;
+  field?: string[];
+  groupby?: string[];
+  orderby?: string[];
+  dataset?: string;
+  since?: string;
+  start?: string;
+  end?: string;
+  tz?: string;
+  limit: number;
+  cursor?: string;
+  format: OutputFormat;
+  redact?: boolean;
+  fields?: string;
+}
+
+export interface ReleasesOptions {
+  project?: string;
+  query?: string;
+  env?: string;
+  limit: number;
+  format: OutputFormat;
+  redact?: boolean;
+  fields?: string;
+}
+
+export interface ReleaseOptions {
+  project?: string;
+  env?: string;
+  limit: number;
+  format: OutputFormat;
+  redact?: boolean;
+  fields?: string;
+}
+
+// What a `slog check` rule measures
+export type CheckMetric = 'new-issues' | 'issues' | 'events';
+
+export type CheckOperator = '>' | '>=' | '<' | '<=' | '==' | '!=';
+
+// One deploy gate rule: the rule fails when `value <operator> threshold`
+export interface CheckRule {
+  name: string;
+  metric: CheckMetric;
   query?: string;
+  release?: string;
   env?: string;
   project?: string;
+  // Issue whose events are counted (events metric only)
+  issue?: string;
+  since?: string;
+  operator: CheckOperator;
+  threshold: number;
+}
+
+export type CheckStatus = 'pass' | 'fail' | 'error';
+
+export interface CheckResult {
+  rule: CheckRule;
+  status: CheckStatus;
+  value: number | null;
+  // Counting stopped once the outcome was certain; the real value is higher
+  capped?: boolean;
+  error?: string;
+  durationMs: number;
+}
+
+export interface CheckReport {
+  status: CheckStatus;
+  passed: number;
+  failed: number;
+  errors: number;
+  results: CheckResult[];
+}
+
+export interface CheckOptions {
+  rule?: string[];
+  file?: string;
+  tz?: string;
+  format: OutputFormat;
+  redact?: boolean;
+  fields?: string;
+}
+
+// Events, users and issues of one project or environment in a digest
+export interface DigestTotals {
+  name: string;
+  events: number;
+  users: number;
+  issues: number;
+}
+
+// An issue count that stopped at the lookup limit when `capped` is set
+export interface DigestCount {
+  count: number;
+  capped?: boolean;
+}
+
+// `slog report` digest over one time range
+export interface Digest {
+  org: string;
+  generatedAt: string;
+  start: string;
+  end: string;
+  project?: string;
+  env?: string;
+  level?: string;
+  // Stats series the trends are computed from
+  statsPeriod: StatsPeriod;
+  totals: Omit<DigestTotals, 'name'>;
+  counts: {
+    newIssues: DigestCount;
+    regressed: DigestCount;
+    // Issues seen in the period that are resolved now, not resolved in it
+    resolved: DigestCount;
+  };
+  projects: DigestTotals[];
+  environments: DigestTotals[];
+  topByEvents: SentryIssue[];
+  topByUsers: SentryIssue[];
+  newIssues: SentryIssue[];
+  regressed: SentryIssue[];
+}
+
+export interface ReportOptions {
+  since?: string;
+  start?: string;
+  end?: string;
+  tz?: string;
+  project?: string;
+  env?: string;
+  level?: string;
+  limit: number;
+  format: OutputFormat;
+  // Accepted like on other commands; digests are always redacted
+  redact?: boolean;
+  fields?: string;
+}
+
+export interface EventOptions {
+  project?: string;
+  format: OutputFormat;
+  redact?: boolean;
+  fields?: string;
+}
+
+export interface TailOptions extends QueryFlags {
+  query?: string;
+  explain?: boolean;
   interval: number;
+  since?: string;
+  tz?: string;
+  stateFile?: string;
+  checkpoint?: string;
+  exec?: string;
+  post?: string;
+  concurrency?: number;
+  retries?: number;
+  failureLog?: string;
+  aggregate?: string;
+  spike?: number;
   format: OutputFormat;
   redact?: boolean;
   fields?: string;
+  columns?: string;
+  template?: string;
+}
+
+export interface TriageOptions {
+  format: OutputFormat;
+  dryRun?: boolean;
+  redact?: boolean;
+  fields?: string;
+}
+
+export interface ResolveOptions extends TriageOptions {
+  inRelease?: string;
+  inNextRelease?: boolean;
+}
+
+export interface IgnoreOptions extends TriageOptions {
+  for?: string;
+  count?: number;
+  window?: string;
+  users?: number;
+  userWindow?: string;
+}
+
+export interface BookmarkOptions extends TriageOptions {
+  remove?: boolean;
+}
+
+export interface EventHookOptions {
+  exec?: string;
+  post?: string;
+  concurrency: number;
+  retries: number;
+  failureLog?: string;
+  redact?: boolean;
+}
+
+// One issue's activity within the tail --aggregate window
+export interface AggregateSummary {
+  issueId: string;
+  shortId?: string;
+  title: string;
+  exceptionType?: string;
+  level?: string;
+  count: number;
+  environments: string[];
+  firstSeen: string;
+  lastSeen: string;
+  baseline?: number;
+  spike: boolean;
+}
+
+// Sentry integration webhook envelope (Sentry-Hook-Resource header names the resource)
+export type WebhookResource = 'issue' | 'event_alert' | 'error' | 'installation' | 'metric_alert' | 'comment';
+
+export interface SentryWebhookPayload {
+  action: string;
+  installation?: { uuid: string };
+  data: Record<string, unknown>;
+  actor?: { type: string; id: string | number; name: string };
+}
+
+export type WebhookMessage =
+  | { kind: 'issue'; action: string; issue: SentryIssue }
+  | { kind: 'event'; resource: WebhookResource; action: string; event: SentryEvent }
+  | { kind: 'other'; resource: string; action: string; data: Record<string, unknown> };
+
+// Persisted tail position, written after each delivered batch
+export interface TailCheckpoint {
+  version: 1;
+  query: string;
+  timestamp: string;
+  eventId: string;
+  seen: Array<[string, number]>;
+  updatedAt: string;
 }
@@ -0,0 +1,111 @@
+import type { SentryEvent, AggregateSummary } from '../types.js';
+
+// Bursts smaller than this are never flagged as spikes
+const MIN_SPIKE_COUNT = 3;
+
+interface IssueWindow {
+  issueId: string;
+  shortId?: string;
+  title: string;
+  exceptionType?: string;
+  level?: string;
+  // Event timestamps (ms) still inside the window, oldest first
+  timestamps: number[];
+  environments: Map<string, number>;
+  // Events that have aged out of the window, used for the baseline rate
+  olderCount: number;
+}
+
+function tagValue(event: SentryEvent, key: string): string | undefined {
+  return event.tags?.find((tag) => tag.key === key)?.value;
+}
+
+/**
+ * Groups tailed events by issue over a rolling window. An issue is a spike
+ * when its count in the window exceeds `spikeFactor` times its average count
+ * per window since the aggregator started.
+ */
+export class BurstAggregator {
+  private issues = new Map<string, IssueWindow>();
+  private startedAt = Date.now();
+
+  constructor(
+    private windowMs: number,
+    private spikeFactor: number
+  ) {}
+
+  add(event: SentryEvent): void {
+    const issueId = event.groupID || event.title || event.eventID;
+    let issue = this.issues.get(issueId);
+
+    if (!issue) {
+      issue = {
+        issueId,
+        shortId: tagValue(event, 'issue'),
+        title: event.title || event.message || '-',
+        exceptionType: event.metadata?.type as string | undefined,
+        level: tagValue(event, 'level'),
+        timestamps: [],
+        environments: new Map(),
+        olderCount: 0,
+      };
+      this.issues.set(issueId, issue);
+    }
+
+    const timestamp = Date.parse(event.dateCreated);
+    const index = issue.timestamps.findIndex((t) => t > timestamp);
+    if (index === -1) issue.timestamps.push(timestamp);
+    else issue.timestamps.splice(index, 0, timestamp);
+
+    const env = event.environment || '-';
+    issue.environments.set(env, timestamp);
+  }
+
+  // Current window per issue, busiest first. Issues with no events in the window are omitted.
+  summarize(now = Date.now()): AggregateSummary[] {
+    const windowStart = now - this.windowMs;
+    const historyWindows = (windowStart - this.startedAt) / this.windowMs;
+    const summaries: AggregateSummary[] = [];
+
+    for (const issue of this.issues.values()) {
+      while (issue.timestamps.length > 0 && issue.timestamps[0] < windowStart) {
+        issue.timestamps.shift();
+        issue.olderCount++;
+      }
+
+      for (const [env, lastSeen] of issue.environments) {
+        if (lastSeen < windowStart) issue.environments.delete(env);
+      }
+
+      // Forget issues that have gone quiet so a long tail doesn't keep every
+      // issue it has seen. One that comes back starts from a zero baseline.
+      const count = issue.timestamps.length;
+      if (count === 0) {
+        this.issues.delete(issue.issueId);
+        continue;
+      }
+
+      // Need a full window of history before a baseline means anything
+      const baseline = historyWindows >= 1 ? issue.olderCount / historyWindows : undefined;
+      const spike = baseline !== undefined
+        && count >= MIN_SPIKE_COUNT
+        && count > this.spikeFactor * baseline;
+
+      summaries.push({
+        issueId: issue.issueId,
+        shortId: issue.shortId,
+        title: issue.title,
+        exceptionType: issue.exceptionType,
+        level: issue.level,
+        count,
+        environments: [...issue.environments.keys()].sort(),
+        firstSeen: new Date(issue.timestamps[0]).toISOString(),
+        lastSeen: new Date(issue.timestamps[count - 1]).toISOString(),
+        baseline: baseline === undefined ? undefined : Math.round(baseline * 100) / 100,
+        spike,
+      });
+    }
+
+    return summaries.sort((a, b) => b.count - a.count);
+  }
+}
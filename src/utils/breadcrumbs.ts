@@ -0,0 +1,161 @@
+import type { SentryEvent, Breadcrumb, TimelineEntry } from '../types.js';
+import { getEntry } from './entries.js';
+
+// Breadcrumb timeline for `slog breadcrumbs`
+
+export interface BreadcrumbFilter {
+  // Comma-separated categories or types; "ui" also matches "ui.click"
+  category?: string;
+  // Comma-separated levels
+  level?: string;
+  // Case-insensitive regex over category and message
+  grep?: string;
+}
+
+function dataString(data: Record<string, unknown> | undefined, key: string): string | undefined {
+  const value = data?.[key];
+  return value === undefined || value === null || value === '' ? undefined : String(value);
+}
+
+function isHttp(crumb: Breadcrumb): boolean {
+  return crumb.type === 'http' || ['http', 'fetch', 'xhr', 'httplib', 'requests'].includes(crumb.category || '');
+}
+
+function isQuery(crumb: Breadcrumb): boolean {
+  const category = crumb.category || '';
+  return crumb.type === 'query' || category === 'query' || category.startsWith('db.') || category === 'sql.query';
+}
+
+/**
+ * One-line summary of a breadcrumb, using the fields each common category
+ * carries in `data` before falling back to the message.
+ */
+export function describeBreadcrumb(crumb: Breadcrumb): string {
+  const data = crumb.data;
+
+  if (isHttp(crumb) && (dataString(data, 'url') || dataString(data, 'method'))) {
+    const status = dataString(data, 'status_code');
+    const reason = dataString(data, 'reason');
+    return [
+      dataString(data, 'method') || 'GET',
+      status && (reason ? `${status} ${reason}` : status),
+      dataString(data, 'url'),
+    ]
+      .filter(Boolean)
+      .join(' ');
+  }
+
+  if (crumb.category === 'navigation' && (dataString(data, 'from') || dataString(data, 'to'))) {
+    return `${dataString(data, 'from') || '?'} → ${dataString(data, 'to') || '?'}`;
+  }
+
+  if (crumb.category === 'console' && !crumb.message && Array.isArray(data?.arguments)) {
+    return data.arguments
+      .map((arg) => (typeof arg === 'string' ? arg : JSON.stringify(arg)))
+      .join(' ');
+  }
+
+  if (isQuery(crumb) && crumb.message) {
+    const duration = dataString(data, 'duration');
+    return duration ? `${crumb.message} (${duration}ms)` : crumb.message;
+  }
+
+  if (crumb.message) return crumb.message;
+  return data && Object.keys(data).length > 0 ? JSON.stringify(data) : '';
+}
+
+/**
+ * Breadcrumb timestamps are ISO strings or epoch seconds depending on the SDK.
+ */
+export function timestampMs(value: string | number | undefined): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const ms = typeof value === 'number' ? value * 1000 : new Date(value).getTime();
+  return Number.isNaN(ms) ? undefined : ms;
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value || '').split(',').map((v) => v.trim().toLowerCase()).filter(Boolean);
+}
+
+function compileFilter(filter: BreadcrumbFilter): (entry: TimelineEntry) => boolean {
+  const categories = splitList(filter.category);
+  const levels = splitList(filter.level);
+  let grep: RegExp | undefined;
+  if (filter.grep) {
+    try {
+      grep = new RegExp(filter.grep, 'i');
+    } catch {
+      throw new Error(`Invalid --grep pattern "${filter.grep}"`);
+    }
+  }
+
+  return (entry) => {
+    const category = entry.category.toLowerCase();
+    const type = entry.type?.toLowerCase();
+    if (
+      categories.length > 0 &&
+      !categories.some((c) => category === c || category.startsWith(`${c}.`) || type === c)
+    ) {
+      return false;
+    }
+    if (levels.length > 0 && !levels.includes(entry.level.toLowerCase())) return false;
+    if (grep && !grep.test(`${entry.category} ${entry.message}`)) return false;
+    return true;
+  };
+}
+
+/**
+ * The event's breadcrumbs, oldest first, with offsets from the error and
+ * the exception itself as the final entry. Filters never drop the exception.
+ */
+export function buildTimeline(event: SentryEvent, filter: BreadcrumbFilter = {}): TimelineEntry[] {
+  const crumbs = getEntry(event, 'breadcrumbs')?.values || [];
+  const errorTime = timestampMs(event.dateCreated);
+
+  const entries: TimelineEntry[] = crumbs.map((crumb, index) => {
+    const time = timestampMs(crumb.timestamp);
+    return {
+      index,
+      timestamp: time !== undefined ? new Date(time).toISOString() : undefined,
+      offsetMs: time !== undefined && errorTime !== undefined ? time - errorTime : undefined,
+      category: crumb.category || crumb.type || 'default',
+      type: crumb.type,
+      level: crumb.level || 'info',
+      message: describeBreadcrumb(crumb),
+      data: crumb.data,
+    };
+  });
+
+  const matches = compileFilter(filter);
+  const timeline = entries.filter(matches);
+
+  const exception = getEntry(event, 'exception')?.values?.at(-1);
+  const level = event.tags?.find((tag) => tag.key === 'level')?.value;
+  timeline.push({
+    index: crumbs.length,
+    timestamp: errorTime !== undefined ? new Date(errorTime).toISOString() : undefined,
+    offsetMs: errorTime !== undefined ? 0 : undefined,
+    category: exception ? 'exception' : 'message',
+    level: level || 'error',
+    message: exception
+      ? `${exception.type}: ${exception.value ?? ''}`.trim()
+      : event.message || event.title || '',
+  });
+
+  return timeline;
+}
+
+// Offset from the error, e.g. "-1.250s", "-3m04s", "-2h05m"
+export function formatOffset(ms: number | undefined): string {
+  if (ms === undefined) return '?';
+  const sign = ms < 0 ? '-' : ms > 0 ? '+' : ' ';
+  const abs = Math.abs(ms);
+
+  if (abs < 60_000) return `${sign}${(abs / 1000).toFixed(3)}s`;
+  if (abs < 3_600_000) {
+    const mins = Math.floor(abs / 60_000);
+    return `${sign}${mins}m${String(Math.floor((abs % 60_000) / 1000)).padStart(2, '0')}s`;
+  }
+  const hours = Math.floor(abs / 3_600_000);
+  return `${sign}${hours}h${String(Math.floor((abs % 3_600_000) / 60_000)).padStart(2, '0')}m`;
+}
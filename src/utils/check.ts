@@ -0,0 +1,296 @@
+import { readFileSync } from 'node:fs';
+import { buildQuery, formatQueryFilter } from './query.js';
+import { resolveTimeRange } from './time.js';
+import { parseYaml } from './yaml.js';
+import type {
+  CheckMetric,
+  CheckOperator,
+  CheckRule,
+  CheckResult,
+  CheckReport,
+  CheckStatus,
+} from '../types.js';
+
+// Deploy gate rules for `slog check`
+//
+// A rule counts one thing and says when that count is a failure:
+//
+//   new-issues release=web@1.4.0 > 0
+//   issues query="is:unresolved level:fatal" env=production > 5
+//   events issue=WEB-123 since=15m > 100
+//
+// --rule takes this one-line form. Rule files (YAML or JSON) use the same
+// keys with the condition under `fail`, and may use ${VAR} to read values
+// such as the release from the CI environment.
+
+export const CHECK_METRICS: Record<CheckMetric, string> = {
+  'new-issues': 'issues first seen in a release (since it went out)',
+  issues: 'issues matching a query (default is:unresolved, last 24h)',
+  events: 'error events matching a query or of one issue (last 24h)',
+};
+
+/**
+ * Exit codes of `slog check`, so a pipeline can tell a failed gate from a
+ * check that couldn't run. `usage` covers invalid rules and options.
+ */
+export const CHECK_EXIT_CODES: Record<CheckStatus | 'usage', number> = {
+  pass: 0,
+  fail: 1,
+  error: 2,
+  usage: 3,
+};
+
+const OPERATORS: Record<CheckOperator, (value: number, threshold: number) => boolean> = {
+  '>': (value, threshold) => value > threshold,
+  '>=': (value, threshold) => value >= threshold,
+  '<': (value, threshold) => value < threshold,
+  '<=': (value, threshold) => value <= threshold,
+  '==': (value, threshold) => value === threshold,
+  '!=': (value, threshold) => value !== threshold,
+};
+
+const RULE_KEYS = ['name', 'metric', 'query', 'release', 'env', 'project', 'issue', 'since', 'fail'];
+
+const CONDITION_PATTERN = /^(>=|<=|==|!=|>|<)\s*(-?\d+(?:\.\d+)?)$/;
+
+export class RuleError extends Error {
+  constructor(
+    message: string,
+    public source: string
+  ) {
+    super(`${source}: ${message}`);
+    this.name = 'RuleError';
+  }
+}
+
+function parseCondition(text: string, source: string): { operator: CheckOperator; threshold: number } {
+  const match = text.trim().match(CONDITION_PATTERN);
+  if (!match) {
+    throw new RuleError(`invalid condition "${text}". Use an operator and a number, like "> 0" or "<= 5"`, source);
+  }
+  return { operator: match[1] as CheckOperator, threshold: Number(match[2]) };
+}
+
+// Words of a --rule, honouring quotes: query="level:fatal is:unresolved"
+function splitRuleWords(spec: string, source: string): string[] {
+  const words: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  let inWord = false;
+
+  for (const char of spec) {
+    if (quote) {
+      if (char === quote) quote = null;
+      else current += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      inWord = true;
+    } else if (/\s/.test(char)) {
+      if (inWord) words.push(current);
+      current = '';
+      inWord = false;
+    } else {
+      current += char;
+      inWord = true;
+    }
+  }
+
+  if (quote) throw new RuleError(`unterminated ${quote} in "${spec}"`, source);
+  if (inWord) words.push(current);
+  return words;
+}
+
+function quoteWord(value: string): string {
+  if (!/[\s"']/.test(value)) return value;
+  return value.includes('"') ? `'${value}'` : `"${value}"`;
+}
+
+/**
+ * One-line form of a rule, as accepted by --rule. Used as the name of
+ * rules that don't set one.
+ */
+export function describeRule(rule: Omit<CheckRule, 'name'>): string {
+  const keys = ['query', 'release', 'env', 'project', 'issue', 'since'] as const;
+  const pairs = keys
+    .filter((key) => rule[key] !== undefined)
+    .map((key) => `${key}=${quoteWord(rule[key]!)}`);
+  return [rule.metric, ...pairs, rule.operator, String(rule.threshold)].join(' ');
+}
+
+/**
+ * The search query a rule counts with. `issueId` is the resolved issue of
+ * an events rule; the rule's own query is kept apart from it in brackets.
+ */
+export function ruleQuery(rule: CheckRule, issueId?: string): string {
+  if (rule.metric === 'events') {
+    const query = buildQuery(rule.query, {
+      release: rule.release,
+      env: rule.env,
+      project: rule.project,
+    }, { dataset: 'events' });
+    if (!issueId) return query;
+    return query ? `issue.id:${issueId} (${query})` : `issue.id:${issueId}`;
+  }
+
+  // Issue counts go to the project endpoint, so project isn't in the query
+  const firstRelease = rule.metric === 'new-issues'
+    ? formatQueryFilter({ key: 'firstRelease', negated: false, operator: '', values: [rule.release!], list: false })
+    : '';
+  const base = rule.query ?? (rule.metric === 'issues' ? 'is:unresolved' : '');
+  return buildQuery([base, firstRelease].filter(Boolean).join(' '), {
+    release: rule.metric === 'issues' ? rule.release : undefined,
+    env: rule.env,
+  }, { dataset: 'issues' });
+}
+
+/**
+ * Build and validate a rule from its keys, so that mistakes are reported
+ * before anything is sent to Sentry.
+ */
+export function toRule(fields: Record<string, unknown>, source: string): CheckRule {
+  const unknown = Object.keys(fields).filter((key) => !RULE_KEYS.includes(key));
+  if (unknown.length > 0) {
+    throw new RuleError(`unknown key "${unknown[0]}". Rules take: ${RULE_KEYS.join(', ')}`, source);
+  }
+
+  const strings: Record<string, string | undefined> = {};
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === null || value === undefined) continue;
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      throw new RuleError(`"${key}" must be a string`, source);
+    }
+    strings[key] = String(value);
+  }
+
+  const metric = strings.metric as CheckMetric | undefined;
+  if (!metric || !(metric in CHECK_METRICS)) {
+    throw new RuleError(
+      `${metric ? `unknown metric "${metric}"` : 'missing metric'}. Use one of: ${Object.keys(CHECK_METRICS).join(', ')}`,
+      source
+    );
+  }
+  if (!strings.fail) {
+    throw new RuleError('missing the failure condition, like "> 0"', source);
+  }
+  if (metric === 'new-issues' && !strings.release) {
+    throw new RuleError('new-issues needs a release', source);
+  }
+  if (strings.issue && metric !== 'events') {
+    throw new RuleError('issue only applies to the events metric', source);
+  }
+
+  const { operator, threshold } = parseCondition(strings.fail, source);
+  const rule: Omit<CheckRule, 'name'> = {
+    metric,
+    query: strings.query,
+    release: strings.release,
+    env: strings.env,
+    project: strings.project,
+    issue: strings.issue,
+    since: strings.since,
+    operator,
+    threshold,
+  };
+  const keyed = Object.fromEntries(Object.entries(rule).filter(([, value]) => value !== undefined));
+
+  try {
+    ruleQuery({ ...keyed, name: '' } as CheckRule);
+    if (rule.since) resolveTimeRange({ since: rule.since });
+  } catch (error) {
+    throw new RuleError(error instanceof Error ? error.message : String(error), source);
+  }
+
+  return { name: strings.name || describeRule(rule), ...keyed } as CheckRule;
+}
+
+/**
+ * Parse a --rule: the metric, key=value pairs, then the failure condition.
+ */
+export function parseRule(spec: string, source: string = '--rule'): CheckRule {
+  const words = splitRuleWords(spec, source);
+  const conditionAt = words.findIndex((word) => /^[<>=!]/.test(word));
+  if (conditionAt === -1) {
+    throw new RuleError(`no failure condition in "${spec}". End the rule with one, like "> 0"`, source);
+  }
+
+  const [metric, ...pairs] = words.slice(0, conditionAt);
+  const fields: Record<string, unknown> = { metric, fail: words.slice(conditionAt).join(' ') };
+
+  for (const pair of pairs) {
+    const eq = pair.indexOf('=');
+    if (eq <= 0) throw new RuleError(`expected key=value, got "${pair}"`, source);
+    fields[pair.slice(0, eq)] = pair.slice(eq + 1);
+  }
+
+  return toRule(fields, source);
+}
+
+// ${VAR} in rule file values, read from the environment
+function expandEnv(value: unknown, source: string): unknown {
+  if (typeof value !== 'string') return value;
+  return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, name: string) => {
+    const env = process.env[name];
+    if (env === undefined) throw new RuleError(`environment variable ${name} is not set`, source);
+    return env;
+  });
+}
+
+/**
+ * Read rules from a YAML or JSON file: a list of rules, or a mapping with
+ * the list under `rules`.
+ */
+export function loadRuleFile(path: string): CheckRule[] {
+  let content: string;
+  try {
+    content = readFileSync(path, 'utf-8');
+  } catch (error) {
+    throw new RuleError(`cannot read rule file (${error instanceof Error ? error.message : error})`, path);
+  }
+
+  let data: unknown;
+  try {
+    data = path.endsWith('.json') || /^\s*[[{]/.test(content) ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw new RuleError(error instanceof Error ? error.message : String(error), path);
+  }
+
+  const list = Array.isArray(data)
+    ? data
+    : data && typeof data === 'object' ? (data as Record<string, unknown>).rules : undefined;
+  if (!Array.isArray(list) || list.length === 0) {
+    throw new RuleError('expected a list of rules, or a list under "rules"', path);
+  }
+
+  return list.map((item, i) => {
+    const source = `${path} rule ${i + 1}`;
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      throw new RuleError('expected a mapping of rule keys', source);
+    }
+    const fields = Object.fromEntries(
+      Object.entries(item as Record<string, unknown>).map(([key, value]) => [key, expandEnv(value, source)])
+    );
+    return toRule(fields, source);
+  });
+}
+
+export function ruleFails(rule: CheckRule, value: number): boolean {
+  return OPERATORS[rule.operator](value, rule.threshold);
+}
+
+/**
+ * Overall outcome: a failed rule beats an error, so a definite problem
+ * is never reported as "couldn't check".
+ */
+export function summarizeCheck(results: CheckResult[]): CheckReport {
+  const count = (status: CheckResult['status']) => results.filter((r) => r.status === status).length;
+  const failed = count('fail');
+  const errors = count('error');
+
+  return {
+    status: failed > 0 ? 'fail' : errors > 0 ? 'error' : 'pass',
+    passed: count('pass'),
+    failed,
+    errors,
+    results,
+  };
+}
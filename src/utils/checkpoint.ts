@@ -0,0 +1,44 @@
+import { readFileSync, writeFileSync, renameSync, mkdirSync, existsSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { homedir } from 'node:os';
+import type { TailCheckpoint } from '../types.js';
+
+const CHECKPOINT_DIR = join(homedir(), '.config', 'slog', 'checkpoints');
+
+// Path of a named checkpoint under ~/.config/slog/checkpoints
+export function checkpointPath(name: string): string {
+  if (!/^[\w.-]+$/.test(name)) {
+    throw new Error(`Invalid checkpoint name "${name}". Use letters, numbers, ".", "_" or "-".`);
+  }
+  return join(CHECKPOINT_DIR, `${name}.json`);
+}
+
+/**
+ * Load a checkpoint, returns null if the file doesn't exist.
+ * A corrupt file is an error rather than a silent restart from scratch.
+ */
+export function loadCheckpoint(path: string): TailCheckpoint | null {
+  if (!existsSync(path)) return null;
+
+  const parsed = JSON.parse(readFileSync(path, 'utf-8')) as Partial<TailCheckpoint>;
+  if (parsed.version !== 1 || !parsed.timestamp || Number.isNaN(Date.parse(parsed.timestamp))) {
+    throw new Error(`Invalid checkpoint file: ${path}`);
+  }
+
+  return {
+    version: 1,
+    query: parsed.query || '',
+    timestamp: parsed.timestamp,
+    eventId: parsed.eventId || '',
+    seen: parsed.seen || [],
+    updatedAt: parsed.updatedAt || parsed.timestamp,
+  };
+}
+
+// Write via a temp file and rename so a crash never leaves a partial checkpoint
+export function saveCheckpoint(path: string, checkpoint: TailCheckpoint): void {
+  mkdirSync(dirname(path), { recursive: true });
+  const tmpPath = `${path}.${process.pid}.tmp`;
+  writeFileSync(tmpPath, JSON.stringify(checkpoint, null, 2) + '\n');
+  renameSync(tmpPath, path);
+}
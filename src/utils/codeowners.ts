@@ -0,0 +1,82 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+// CODEOWNERS parsing and matching, following GitHub's rules: gitignore-style
+// patterns, and the last matching line wins.
+
+const CODEOWNERS_LOCATIONS = ['.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS'];
+
+export interface CodeownersRule {
+  pattern: string;
+  owners: string[];
+  regex: RegExp;
+}
+
+function escapeRegex(char: string): string {
+  return /[.+^${}()|[\]\\]/.test(char) ? `\\${char}` : char;
+}
+
+export function codeownersPatternToRegex(pattern: string): RegExp {
+  let path = pattern;
+  // A slash at the start or in the middle anchors the pattern to the repo root
+  const anchored = path.startsWith('/') || path.slice(0, -1).includes('/');
+  path = path.replace(/^\//, '');
+  const directory = path.endsWith('/');
+  if (directory) path = path.slice(0, -1);
+
+  let source = '';
+  for (let i = 0; i < path.length; i++) {
+    if (path.startsWith('**/', i)) {
+      source += '(?:.*/)?';
+      i += 2;
+    } else if (path.startsWith('**', i)) {
+      source += '.*';
+      i += 1;
+    } else if (path[i] === '*') {
+      source += '[^/]*';
+    } else if (path[i] === '?') {
+      source += '[^/]';
+    } else {
+      source += escapeRegex(path[i]);
+    }
+  }
+
+  // Matching a directory matches everything below it
+  const prefix = anchored ? '^' : '^(?:.*/)?';
+  const suffix = directory ? '/.*$' : '(?:/.*)?$';
+  return new RegExp(prefix + source + suffix);
+}
+
+export function parseCodeowners(content: string): CodeownersRule[] {
+  const rules: CodeownersRule[] = [];
+
+  for (const line of content.split('\n')) {
+    const trimmed = line.replace(/(^|\s)#.*$/, '').trim();
+    if (!trimmed) continue;
+
+    const [pattern, ...owners] = trimmed.split(/\s+/);
+    rules.push({ pattern, owners, regex: codeownersPatternToRegex(pattern) });
+  }
+
+  return rules;
+}
+
+/**
+ * Load the repo's CODEOWNERS file, or an empty rule list when there is none.
+ */
+export function loadCodeowners(repoRoot: string): CodeownersRule[] {
+  for (const location of CODEOWNERS_LOCATIONS) {
+    const path = join(repoRoot, location);
+    if (existsSync(path)) return parseCodeowners(readFileSync(path, 'utf-8'));
+  }
+  return [];
+}
+
+// Owners of a repo-relative path (empty when unowned or explicitly unassigned)
+export function ownersFor(rules: CodeownersRule[], path: string): string[] {
+  const normalized = path.replace(/\\/g, '/');
+  for (let i = rules.length - 1; i >= 0; i--) {
+    if (rules[i].regex.test(normalized)) return rules[i].owners;
+  }
+  return [];
+}
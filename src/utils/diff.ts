@@ -0,0 +1,223 @@
+import type {
+  SentryEvent,
+  EventDiff,
+  EventDiffChange,
+  EventDiffLine,
+  EventDiffSection,
+} from '../types.js';
+import { normalizeStack } from './stack.js';
+import { getEntry, parseContexts, parseTags, parsePairs } from './entries.js';
+import { redactHeaders, redactQuery } from './redact.js';
+
+// Comparing two events field by field. Values are normalized first so that
+// timestamps, memory addresses and generated IDs don't show up as changes.
+
+const NOISE: Array<[RegExp, string]> = [
+  [/\b\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:?\d{2})?/g, '<timestamp>'],
+  [/\b1[5-9]\d{8}(?:\.\d+)?\b/g, '<timestamp>'],
+  [/\b0x[0-9a-f]{4,}\b/gi, '0x…'],
+  [/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<uuid>'],
+  [/\b[0-9a-f]{24,}\b/gi, '<id>'],
+];
+
+// Headers that differ on every request
+const NOISY_HEADERS = new Set([
+  'date',
+  'content-length',
+  'x-request-id',
+  'x-amzn-trace-id',
+  'traceparent',
+  'tracestate',
+  'sentry-trace',
+  'baggage',
+  'if-none-match',
+  'if-modified-since',
+]);
+
+// Compared as they are: release versions are often git SHAs, and whether
+// the release changed is what a diff is usually asked to answer
+const VERBATIM_KEYS = new Set(['release', 'dist', 'sdk', 'sentry:release', 'sentry:dist']);
+
+export function normalizeDiffValue(value: string): string {
+  return NOISE.reduce((text, [pattern, replacement]) => text.replace(pattern, replacement), value);
+}
+
+type Shape = Record<string, string>;
+
+function defined(entries: Array<[string, string | undefined]>): Shape {
+  const shape: Shape = {};
+  for (const [key, value] of entries) {
+    if (value === undefined || value === '') continue;
+    shape[key] = VERBATIM_KEYS.has(key) ? value : normalizeDiffValue(value);
+  }
+  return shape;
+}
+
+function exceptionShape(event: SentryEvent): Shape {
+  // Outermost exception first, then its causes
+  const chain = [...normalizeStack(event).exceptions].reverse();
+  const entries: Array<[string, string | undefined]> = [];
+  chain.forEach((exception, i) => {
+    const prefix = i === 0 ? '' : `cause[${i}].`;
+    entries.push([`${prefix}type`, exception.type], [`${prefix}value`, exception.value]);
+    if (exception.mechanism) {
+      entries.push([`${prefix}handled`, String(exception.mechanism.handled)]);
+    }
+  });
+  if (chain.length === 0) entries.push(['message', event.message || event.title]);
+  return defined(entries);
+}
+
+// In-app frames of the outermost exception (all frames when none are in-app)
+function frameLines(event: SentryEvent): string[] {
+  const frames = normalizeStack(event).exceptions.at(-1)?.frames || [];
+  const inApp = frames.filter((f) => f.inApp);
+  return (inApp.length > 0 ? inApp : frames).map((frame) =>
+    normalizeDiffValue(
+      `${frame.filename || frame.absPath || frame.module || '?'}${frame.lineNo ? `:${frame.lineNo}` : ''} in ${frame.function || '?'}`
+    )
+  );
+}
+
+function contextShape(event: SentryEvent): Shape {
+  const contexts = parseContexts(event.contexts);
+  const join = (...parts: Array<string | undefined>) => parts.filter(Boolean).join(' ') || undefined;
+  return defined([
+    ['release', event.release?.version],
+    ['environment', event.environment],
+    ['dist', event.dist],
+    ['runtime', join(contexts.runtime?.name, contexts.runtime?.version)],
+    ['os', join(contexts.os?.name, contexts.os?.version)],
+    ['browser', join(contexts.browser?.name, contexts.browser?.version)],
+    ['device', join(contexts.device?.family, contexts.device?.model)],
+    ['sdk', join(event.sdk?.name, event.sdk?.version)],
+  ]);
+}
+
+function userShape(event: SentryEvent): Shape {
+  return defined([
+    ['id', event.user?.id],
+    ['email', event.user?.email],
+    ['username', event.user?.username],
+    ['ip_address', event.user?.ip_address],
+  ]);
+}
+
+function requestShape(event: SentryEvent): Shape {
+  const request = getEntry(event, 'request');
+  if (!request) return {};
+
+  const entries: Array<[string, string | undefined]> = [
+    ['method', request.method],
+    ['url', request.url],
+  ];
+  for (const [key, value] of redactQuery(parsePairs(request.query)) || []) {
+    entries.push([`query.${key}`, value]);
+  }
+  for (const [key, value] of redactHeaders(request.headers) || []) {
+    if (!NOISY_HEADERS.has(key.toLowerCase())) entries.push([`header.${key}`, value]);
+  }
+  return defined(entries);
+}
+
+function tagShape(event: SentryEvent): Shape {
+  return defined(parseTags(event.tags).map((tag) => [tag.key, tag.value]));
+}
+
+function diffKeyed(
+  name: string,
+  before: Shape,
+  after: Shape,
+  changes: EventDiffChange[]
+): EventDiffSection {
+  const lines: EventDiffLine[] = [];
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+
+  for (const key of keys) {
+    const a = before[key];
+    const b = after[key];
+    if (a === b) {
+      lines.push({ op: ' ', text: `${key}: ${a}` });
+    } else if (b === undefined) {
+      lines.push({ op: '-', text: `${key}: ${a}` });
+      changes.push({ section: name, key, change: 'removed', before: a });
+    } else if (a === undefined) {
+      lines.push({ op: '+', text: `${key}: ${b}` });
+      changes.push({ section: name, key, change: 'added', after: b });
+    } else {
+      lines.push({ op: '-', text: `${key}: ${a}` }, { op: '+', text: `${key}: ${b}` });
+      changes.push({ section: name, key, change: 'changed', before: a, after: b });
+    }
+  }
+
+  return { name, lines };
+}
+
+// Line diff of two sequences via their longest common subsequence
+function diffSequence(
+  name: string,
+  before: string[],
+  after: string[],
+  changes: EventDiffChange[]
+): EventDiffSection {
+  const lcs: number[][] = Array.from({ length: before.length + 1 }, () =>
+    new Array<number>(after.length + 1).fill(0)
+  );
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lcs[i][j] = before[i] === after[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: EventDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      lines.push({ op: ' ', text: before[i] });
+      i++;
+      j++;
+    } else if (i < before.length && (j === after.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      lines.push({ op: '-', text: before[i] });
+      changes.push({ section: name, key: `#${i}`, change: 'removed', before: before[i] });
+      i++;
+    } else {
+      lines.push({ op: '+', text: after[j] });
+      changes.push({ section: name, key: `#${j}`, change: 'added', after: after[j] });
+      j++;
+    }
+  }
+
+  return { name, lines };
+}
+
+/**
+ * Compare two events section by section: exception, in-app frames,
+ * contexts, user, request and tags.
+ */
+export function diffEvents(
+  before: { event: SentryEvent; label: string },
+  after: { event: SentryEvent; label: string }
+): EventDiff {
+  const changes: EventDiffChange[] = [];
+  const a = before.event;
+  const b = after.event;
+
+  const sections = [
+    diffKeyed('exception', exceptionShape(a), exceptionShape(b), changes),
+    diffSequence('frames', frameLines(a), frameLines(b), changes),
+    diffKeyed('contexts', contextShape(a), contextShape(b), changes),
+    diffKeyed('user', userShape(a), userShape(b), changes),
+    diffKeyed('request', requestShape(a), requestShape(b), changes),
+    diffKeyed('tags', tagShape(a), tagShape(b), changes),
+  ];
+
+  return {
+    before: { eventId: a.eventID, label: before.label },
+    after: { eventId: b.eventID, label: after.label },
+    sections,
+    changes,
+  };
+}
@@ -0,0 +1,188 @@
+import type {
+  SentryEvent,
+  SentryEventEntry,
+  ParsedEventEntry,
+  ExceptionData,
+  BreadcrumbData,
+  RequestData,
+  MessageData,
+  ThreadsData,
+  EventContexts,
+  EventTag,
+} from '../types.js';
+
+// Typed parsers for event entries, contexts and tags. The API, webhooks and
+// SDK payloads disagree on shapes (pairs vs objects, strings vs lists), so
+// everything is normalized to the API's form here.
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function optionalString(value: unknown): string | undefined {
+  if (value === null || value === undefined || value === '') return undefined;
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+// [key, value] pairs from a list of pairs, an object, or a "k=v&k2=v2" string
+export function parsePairs(value: unknown, separator = '&'): Array<[string, string]> | undefined {
+  if (Array.isArray(value)) {
+    return value
+      .filter((pair): pair is unknown[] => Array.isArray(pair) && pair.length >= 1)
+      .map(([key, val]) => [String(key), optionalString(val) ?? '']);
+  }
+  if (isRecord(value)) {
+    return Object.entries(value).map(([key, val]) => [key, optionalString(val) ?? '']);
+  }
+  if (typeof value === 'string' && value) {
+    return value
+      .replace(/^\?/, '')
+      .split(separator)
+      .map((part) => part.trim())
+      .filter(Boolean)
+      .map((part) => {
+        const eq = part.indexOf('=');
+        return eq === -1 ? [part, ''] : [part.slice(0, eq), part.slice(eq + 1)];
+      });
+  }
+  return undefined;
+}
+
+export function parseExceptionData(data: unknown): ExceptionData {
+  if (!isRecord(data)) return {};
+  return { ...data, values: Array.isArray(data.values) ? data.values : [] } as ExceptionData;
+}
+
+export function parseBreadcrumbData(data: unknown): BreadcrumbData {
+  if (Array.isArray(data)) return { values: data };
+  if (!isRecord(data)) return {};
+  return { values: Array.isArray(data.values) ? data.values : [] };
+}
+
+export function parseRequestData(data: unknown): RequestData {
+  if (!isRecord(data)) return {};
+
+  return {
+    url: optionalString(data.url),
+    method: optionalString(data.method)?.toUpperCase(),
+    headers: parsePairs(data.headers),
+    query: parsePairs(data.query ?? data.query_string),
+    fragment: optionalString(data.fragment),
+    data: data.data,
+    cookies: parsePairs(data.cookies, ';'),
+    env: isRecord(data.env) ? (data.env as Record<string, string>) : undefined,
+    inferredContentType: optionalString(data.inferredContentType),
+  };
+}
+
+export function parseMessageData(data: unknown): MessageData {
+  if (typeof data === 'string') return { formatted: data };
+  if (!isRecord(data)) return {};
+  return {
+    formatted: optionalString(data.formatted),
+    message: optionalString(data.message),
+    params: Array.isArray(data.params) ? data.params : undefined,
+  };
+}
+
+export function parseThreadsData(data: unknown): ThreadsData {
+  if (Array.isArray(data)) return { values: data };
+  if (!isRecord(data)) return {};
+  return { values: Array.isArray(data.values) ? data.values : [] };
+}
+
+export function parseEntry(entry: SentryEventEntry): ParsedEventEntry {
+  switch (entry.type) {
+    case 'exception':
+      return { type: 'exception', data: parseExceptionData(entry.data) };
+    case 'breadcrumbs':
+      return { type: 'breadcrumbs', data: parseBreadcrumbData(entry.data) };
+    case 'request':
+      return { type: 'request', data: parseRequestData(entry.data) };
+    case 'message':
+      return { type: 'message', data: parseMessageData(entry.data) };
+    case 'threads':
+      return { type: 'threads', data: parseThreadsData(entry.data) };
+    default:
+      return { type: 'unknown', entryType: entry.type, data: entry.data };
+  }
+}
+
+export function parseEntries(event: SentryEvent): ParsedEventEntry[] {
+  return (event.entries || []).map(parseEntry);
+}
+
+interface EntryDataTypes {
+  exception: ExceptionData;
+  breadcrumbs: BreadcrumbData;
+  request: RequestData;
+  message: MessageData;
+  threads: ThreadsData;
+}
+
+/**
+ * The parsed data of an event's first entry of the given type.
+ */
+export function getEntry<K extends keyof EntryDataTypes>(
+  event: SentryEvent,
+  type: K
+): EntryDataTypes[K] | undefined {
+  const entry = event.entries?.find((e) => e.type === type);
+  if (!entry) return undefined;
+  return parseEntry(entry).data as EntryDataTypes[K];
+}
+
+// Tags arrive as {key, value} objects, [key, value] pairs or a plain object
+export function parseTags(value: unknown): EventTag[] {
+  if (isRecord(value)) {
+    return Object.entries(value).map(([key, val]) => ({ key, value: optionalString(val) ?? '' }));
+  }
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .map((tag) => {
+      if (Array.isArray(tag)) return { key: String(tag[0]), value: optionalString(tag[1]) ?? '' };
+      if (isRecord(tag)) return { key: String(tag.key), value: optionalString(tag.value) ?? '' };
+      return null;
+    })
+    .filter((tag): tag is EventTag => tag !== null);
+}
+
+function pick<K extends string>(
+  context: Record<string, unknown> | undefined,
+  keys: Record<K, string>
+): Partial<Record<K, string>> | undefined {
+  if (!context) return undefined;
+  const result: Partial<Record<K, string>> = {};
+  for (const [name, source] of Object.entries(keys) as Array<[K, string]>) {
+    const value = optionalString(context[source]);
+    if (value !== undefined) result[name] = value;
+  }
+  return result;
+}
+
+const KNOWN_CONTEXTS = new Set(['browser', 'os', 'runtime', 'device', 'trace']);
+
+export function parseContexts(value: unknown): EventContexts {
+  const contexts = isRecord(value) ? value : {};
+  const context = (name: string) => (isRecord(contexts[name]) ? contexts[name] : undefined);
+
+  const other: Record<string, Record<string, unknown>> = {};
+  for (const [name, data] of Object.entries(contexts)) {
+    if (!KNOWN_CONTEXTS.has(name) && isRecord(data)) other[name] = data;
+  }
+
+  return {
+    browser: pick(context('browser'), { name: 'name', version: 'version' }),
+    os: pick(context('os'), {
+      name: 'name',
+      version: 'version',
+      build: 'build',
+      kernelVersion: 'kernel_version',
+    }),
+    runtime: pick(context('runtime'), { name: 'name', version: 'version' }),
+    device: pick(context('device'), { family: 'family', model: 'model', brand: 'brand', arch: 'arch' }),
+    trace: pick(context('trace'), { traceId: 'trace_id', spanId: 'span_id', op: 'op', status: 'status' }),
+    other,
+  };
+}
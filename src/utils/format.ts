@@ -2,160 +2,571 @@ import Table from 'cli-table3';
 import chalk from 'chalk';
 import type {
   SentryIssue,
+  SentryIssueDetail,
+  SentryTagDistribution,
   SentryEvent,
   OutputFormat,
-  ExceptionData,
-  BreadcrumbData,
+  RequestData,
+  EventContexts,
   StackFrame,
   Breadcrumb,
+  IssueUpdate,
+  AggregateSummary,
+  StackMode,
+  SuspectReport,
+  EventDiff,
+  StatsPeriod,
+  TrendDirection,
+  SearchResult,
+  DiscoverRow,
+  SentryRelease,
+  ReleaseReport,
+  ReleaseIssueComparison,
+  CheckStatus,
+  CheckResult,
+  CheckReport,
+  Digest,
+  DigestCount,
+  DigestTotals,
 } from '../types.js';
-import { redactObject, filterFields, filterArrayFields } from './redact.js';
+import {
+  redactObject,
+  redactString,
+  redactHeaders,
+  redactQuery,
+  redactCookies,
+  parseFieldSpec,
+  projectFields,
+  getFieldValue,
+} from './redact.js';
+import { getFormatter } from './formatters.js';
+import { formatTimeAgo, truncate, colorLevel } from './text.js';
+import { renderTemplate } from './template.js';
+import { formatDuration } from './time.js';
+import { formatTrend } from './trend.js';
+import { splitFieldList } from './search.js';
+import { describeRule } from './check.js';
+import { buildTimeline, describeBreadcrumb, formatOffset, timestampMs } from './breadcrumbs.js';
+import type { BreadcrumbFilter } from './breadcrumbs.js';
+import { getEntry, parseContexts, parseTags, parsePairs } from './entries.js';
+import { normalizeStack, formatStack } from './stack.js';
+import type { StackRenderOptions } from './stack.js';
+import { mapStackToRepo } from './repo.js';
+import type { RepoMapping } from './repo.js';
+import type { FormatContext, FormatRecord } from './formatters.js';
 
-// Time formatting
-function formatTimeAgo(dateStr: string): string {
-  const date = new Date(dateStr);
-  const now = new Date();
-  const diffMs = now.getTime() - date.getTime();
-  const diffSecs = Math.floor(diffMs / 1000);
-  const diffMins = Math.floor(diffSecs / 60);
-  const diffHours = Math.floor(diffMins / 60);
-  const diffDays = Math.floor(diffHours / 24);
+export { registerFormat, getFormatter, listFormats, toYaml } from './formatters.js';
+export type { RecordFormatter, FormatContext, FormatRecord } from './formatters.js';
 
-  if (diffDays > 0) return `${diffDays}d ago`;
-  if (diffHours > 0) return `${diffHours}h ago`;
-  if (diffMins > 0) return `${diffMins}m ago`;
-  return `${diffSecs}s ago`;
+const SPARK_CHARS = '▁▂▃▄▅▆▇█';
+
+// Render a stats series as a compact unicode sparkline
+export function sparkline(series: Array<[number, number]>): string {
+  if (series.length === 0) return '';
+  const counts = series.map(([, count]) => count);
+  const max = Math.max(...counts);
+  if (max === 0) return SPARK_CHARS[0].repeat(counts.length);
+
+  return counts
+    .map((count) => SPARK_CHARS[Math.round((count / max) * (SPARK_CHARS.length - 1))])
+    .join('');
+}
+
+function parseFieldList(fields: string | undefined): string[] | undefined {
+  if (!fields) return undefined;
+  return fields.split(',').map((f) => f.trim()).filter(Boolean);
+}
+
+/**
+ * Check a --fields list up front, so a bad path is reported before any
+ * work is done instead of when the first record is rendered.
+ */
+export function validateFields(fields: string | undefined): void {
+  parseFieldList(fields)?.forEach(parseFieldSpec);
+}
+
+// Render records with a registered (non-table) format, applying --fields
+function renderRecords(
+  records: object[],
+  format: OutputFormat,
+  context: Omit<FormatContext, 'fields'> & { fields?: string }
+): string {
+  const formatter = getFormatter(format);
+  const fieldList = parseFieldList(context.fields);
+  if (!fieldList) {
+    return formatter.format(records as FormatRecord[], { ...context, fields: undefined });
+  }
+
+  const projections = fieldList.map(parseFieldSpec);
+  const projected = records.map((record) => projectFields(record, projections));
+  return formatter.format(projected, { ...context, fields: projections.map((p) => p.name) });
+}
+
+// Table columns: a field path (anything --fields accepts) or a computed value
+interface TableColumn<T extends object = object> {
+  header: string;
+  path?: string;
+  value?: (record: T) => string;
+  // Color a cell after widths are measured (text must stay plain for that)
+  style?: (text: string, record: T) => string;
+}
+
+const ISSUE_COLUMNS: TableColumn[] = [
+  { header: 'ID', path: 'shortId' },
+  { header: 'Level', path: 'level' },
+  { header: 'Title', path: 'title' },
+  { header: 'Events', path: 'count' },
+  { header: 'Users', path: 'userCount' },
+  { header: 'Last Seen', path: 'lastSeen' },
+];
+
+const TREND_COLORS: Record<TrendDirection, (text: string) => string> = {
+  rising: chalk.red,
+  new: chalk.yellow,
+  falling: chalk.green,
+  flat: chalk.gray,
+};
+
+// Trend and volume columns, shown after Events when stats were requested
+function issueStatsColumns(period: StatsPeriod): TableColumn<SentryIssue>[] {
+  return [
+    {
+      header: 'Trend',
+      value: (issue) => formatTrend(issue.trend),
+      style: (text, issue) => (issue.trend ? TREND_COLORS[issue.trend.direction](text) : text),
+    },
+    {
+      header: period,
+      value: (issue) => sparkline(issue.stats?.[period] || []) || '-',
+      style: (text) => chalk.yellow(text),
+    },
+  ];
+}
+
+const EVENT_COLUMNS: TableColumn<SentryEvent>[] = [
+  { header: 'Event ID', value: (event: SentryEvent) => event.eventID.slice(0, 12) },
+  { header: 'Time', path: 'dateCreated' },
+  { header: 'Exception', value: (event: SentryEvent) => getExceptionType(event) },
+  { header: 'Message', value: (event: SentryEvent) => event.title || event.message || '-' },
+];
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/;
+
+// Fields shown as "x ago" in table columns; other text that merely starts
+// with a timestamp (a title or message) is left alone
+const DATE_FIELDS = new Set([
+  'firstSeen',
+  'lastSeen',
+  'dateCreated',
+  'dateReceived',
+  'dateReleased',
+  'timestamp',
+  'lastEvent',
+  'firstEvent',
+]);
+
+function isDatePath(path: string): boolean {
+  return DATE_FIELDS.has(path.slice(path.lastIndexOf('.') + 1));
+}
+const MIN_COLUMN_WIDTH = 6;
+
+// Parse --columns: comma-separated field paths, optionally "Header=path"
+export function parseColumns(spec: string): TableColumn[] {
+  return spec
+    .split(',')
+    .map((c) => c.trim())
+    .filter(Boolean)
+    .map((c) => {
+      const { name } = parseFieldSpec(c);
+      const eq = c.indexOf('=');
+      return { header: name, path: eq === -1 ? c : c.slice(eq + 1).trim() };
+    });
+}
+
+function cellText<T extends object>(column: TableColumn<T>, record: T): string {
+  if (column.value) return column.value(record);
+
+  const value = getFieldValue(record, column.path!);
+  if (value === null || value === undefined || value === '') return '-';
+  if (typeof value === 'string' && isDatePath(column.path!) && ISO_DATE.test(value)) return formatTimeAgo(value);
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value).replace(/\s*\n\s*/g, ' ');
+}
+
+function styleCell<T extends object>(column: TableColumn<T>, text: string, record: T): string {
+  if (column.style) return column.style(text, record);
+  return column.path && /(^|\.)level$/.test(column.path) ? colorLevel(text) : text;
 }
 
-function truncate(str: string, maxLen: number): string {
-  if (str.length <= maxLen) return str;
-  return str.slice(0, maxLen - 3) + '...';
+function terminalWidth(): number {
+  return process.stdout.columns || 120;
 }
 
-// Level coloring
-function colorLevel(level: string): string {
-  switch (level.toLowerCase()) {
-    case 'error':
-    case 'fatal':
-      return chalk.red(level);
-    case 'warning':
-      return chalk.yellow(level);
-    case 'info':
-      return chalk.blue(level);
-    default:
-      return chalk.gray(level);
+// Shrink the widest columns until the table (plus borders) fits the terminal
+function fitColumnWidths(natural: number[], available: number): number[] {
+  const widths = [...natural];
+  let overflow = widths.reduce((sum, w) => sum + w, 0) + widths.length + 1 - available;
+
+  while (overflow > 0) {
+    const widest = widths.indexOf(Math.max(...widths));
+    if (widths[widest] <= MIN_COLUMN_WIDTH) break;
+    widths[widest]--;
+    overflow--;
   }
+
+  return widths;
+}
+
+function renderColumnTable<T extends object>(records: T[], columns: TableColumn<T>[]): string {
+  const rows = records.map((record) => columns.map((column) => cellText(column, record)));
+  const natural = columns.map(
+    (column, i) => Math.max(column.header.length, ...rows.map((row) => row[i].length)) + 2
+  );
+  const widths = fitColumnWidths(natural, terminalWidth());
+
+  const table = new Table({
+    head: columns.map((column) => chalk.cyan(column.header)),
+    colWidths: widths,
+  });
+
+  rows.forEach((row, r) => {
+    table.push(row.map((text, i) => styleCell(columns[i], truncate(text, widths[i] - 2), records[r])));
+  });
+
+  return table.toString();
+}
+
+function renderTemplateLines(records: object[], template: string): string {
+  return records.map((record) => renderTemplate(template, record)).join('\n');
 }
 
 // Issue formatting
 export function formatIssues(
   issues: SentryIssue[],
   format: OutputFormat,
-  options: { redact?: boolean; fields?: string } = {}
+  options: {
+    redact?: boolean;
+    fields?: string;
+    columns?: string;
+    template?: string;
+    stats?: StatsPeriod;
+  } = {}
 ): string {
-  let data: SentryIssue[] | Partial<SentryIssue>[] = issues;
+  let data = issues;
 
   if (options.redact) {
     data = redactObject(data);
   }
 
-  if (options.fields) {
-    const fieldList = options.fields.split(',').map((f) => f.trim());
-    data = filterArrayFields(data as SentryIssue[], fieldList);
+  if (options.template) {
+    return renderTemplateLines(data, options.template);
   }
 
-  if (format === 'json') {
-    return JSON.stringify(data, null, 2);
+  if (format !== 'table') {
+    return renderRecords(data, format, { kind: 'issue', fields: options.fields });
   }
 
   // Table format
-  if (issues.length === 0) {
+  if (data.length === 0) {
     return chalk.gray('No issues found');
   }
 
+  let columns: TableColumn<SentryIssue>[] = options.columns ? parseColumns(options.columns) : ISSUE_COLUMNS;
+  if (!options.columns && options.stats) {
+    const events = columns.findIndex((column) => column.path === 'count') + 1;
+    columns = [...columns.slice(0, events), ...issueStatsColumns(options.stats), ...columns.slice(events)];
+  }
+  return renderColumnTable(data, columns);
+}
+
+// Single issue detail formatting
+export function formatIssueDetail(
+  issue: SentryIssueDetail,
+  tags: SentryTagDistribution[],
+  format: OutputFormat,
+  options: { redact?: boolean; fields?: string } = {}
+): string {
+  let detail: SentryIssueDetail & { tags: SentryTagDistribution[] } = { ...issue, tags };
+
+  if (options.redact) {
+    detail = redactObject(detail);
+  }
+
+  if (format !== 'table') {
+    return renderRecords([detail], format, { kind: 'issueDetail', fields: options.fields, single: true });
+  }
+
+  const lines: string[] = [];
+  lines.push(chalk.bold(`${detail.shortId}  ${detail.title}`));
+  if (detail.culprit) lines.push(chalk.gray(detail.culprit));
+  lines.push('');
+
+  const overview = new Table();
+  const releaseSuffix = (release?: { version: string } | null) =>
+    release ? chalk.gray(` in ${release.version}`) : '';
+
+  overview.push(
+    { Status: detail.status },
+    { Level: colorLevel(detail.level) },
+    { Project: detail.project.slug },
+    { Events: detail.count },
+    { Users: detail.userCount?.toString() || '-' },
+    { 'First Seen': `${formatTimeAgo(detail.firstSeen)}${releaseSuffix(detail.firstRelease)}` },
+    { 'Last Seen': `${formatTimeAgo(detail.lastSeen)}${releaseSuffix(detail.lastRelease)}` },
+    { Assignee: detail.assignedTo ? detail.assignedTo.name : chalk.gray('unassigned') }
+  );
+  if (detail.permalink) overview.push({ Link: detail.permalink });
+  lines.push(overview.toString());
+
+  // Event volume from the stats series
+  for (const [period, series] of Object.entries(detail.stats || {})) {
+    if (!series || series.length === 0) continue;
+    const total = series.reduce((sum, [, count]) => sum + count, 0);
+    lines.push('');
+    lines.push(chalk.bold(`Events (${period}): `) + `${total}  ${chalk.yellow(sparkline(series))}`);
+  }
+
+  // Tag distribution
+  const withValues = detail.tags.filter((tag) => tag.topValues.length > 0);
+  if (withValues.length > 0) {
+    lines.push('');
+    lines.push(chalk.bold('Tags:'));
+
+    const table = new Table({
+      head: [chalk.cyan('Tag'), chalk.cyan('Value'), chalk.cyan('Count'), chalk.cyan('%')],
+      colWidths: [16, 50, 9, 16],
+      wordWrap: true,
+    });
+
+    for (const tag of withValues) {
+      const total = tag.totalValues || tag.topValues.reduce((sum, v) => sum + v.count, 0) || 1;
+      tag.topValues.slice(0, 5).forEach((value, i) => {
+        const pct = Math.round((value.count / total) * 100);
+        const bar = '█'.repeat(Math.max(1, Math.round(pct / 10)));
+        table.push([
+          i === 0 ? tag.key : '',
+          truncate(value.value ?? value.name, 47),
+          value.count.toString(),
+          `${pct.toString().padStart(3)}% ${chalk.gray(bar)}`,
+        ]);
+      });
+    }
+
+    lines.push(table.toString());
+  }
+
+  return lines.join('\n');
+}
+
+// Triage dry-run formatting
+interface IssueChange {
+  field: string;
+  from: string;
+  to: string;
+}
+
+function describeIssueUpdate(issue: SentryIssue, update: IssueUpdate): IssueChange[] {
+  const changes: IssueChange[] = [];
+
+  if (update.status !== undefined) {
+    changes.push({ field: 'status', from: issue.status, to: update.status });
+  }
+
+  if (update.statusDetails && Object.keys(update.statusDetails).length > 0) {
+    const details = Object.entries(update.statusDetails)
+      .map(([key, value]) => `${key}=${value}`)
+      .join(' ');
+    changes.push({ field: 'statusDetails', from: '-', to: details });
+  }
+
+  if (update.assignedTo !== undefined) {
+    const current = issue.assignedTo
+      ? `${issue.assignedTo.type}:${issue.assignedTo.id}`
+      : '-';
+    changes.push({ field: 'assignedTo', from: current, to: update.assignedTo || '-' });
+  }
+
+  if (update.isBookmarked !== undefined) {
+    changes.push({
+      field: 'isBookmarked',
+      from: String(issue.isBookmarked),
+      to: String(update.isBookmarked),
+    });
+  }
+
+  return changes;
+}
+
+export function formatTriagePlan(
+  issues: SentryIssue[],
+  update: IssueUpdate,
+  format: OutputFormat,
+  options: { redact?: boolean } = {}
+): string {
+  let plan = issues.map((issue) => ({
+    id: issue.id,
+    shortId: issue.shortId,
+    title: issue.title,
+    changes: describeIssueUpdate(issue, update),
+  }));
+
+  if (options.redact) {
+    plan = redactObject(plan);
+  }
+
+  if (format !== 'table') {
+    return renderRecords(plan, format, { kind: 'plan' });
+  }
+
+  if (plan.length === 0) {
+    return chalk.gray('No issues to update');
+  }
+
   const table = new Table({
-    head: [
-      chalk.cyan('ID'),
-      chalk.cyan('Level'),
-      chalk.cyan('Title'),
-      chalk.cyan('Events'),
-      chalk.cyan('Users'),
-      chalk.cyan('Last Seen'),
-    ],
-    colWidths: [12, 8, 50, 8, 7, 12],
+    head: [chalk.cyan('ID'), chalk.cyan('Title'), chalk.cyan('Change')],
+    colWidths: [12, 40, 45],
     wordWrap: true,
   });
 
-  for (const issue of issues) {
-    table.push([
-      issue.shortId,
-      colorLevel(issue.level),
-      truncate(issue.title, 47),
-      issue.count,
-      issue.userCount?.toString() || '-',
-      formatTimeAgo(issue.lastSeen),
+  for (const item of plan) {
+    const changes = item.changes
+      .map((c) => `${c.field}: ${chalk.gray(c.from)} → ${chalk.green(c.to)}`)
+      .join('\n');
+    table.push([item.shortId, truncate(item.title, 37), changes || chalk.gray('no change')]);
+  }
+
+  return chalk.yellow('Dry run, no changes made:\n') + table.toString();
+}
+
+// Suspect commits and owners for an issue
+function firstSeenRelation(delta: number | undefined): string {
+  if (delta === undefined) return '-';
+  const relation = `${formatDuration(delta)} ${delta <= 0 ? 'before' : 'after'} first seen`;
+  return delta <= 0 ? relation : chalk.gray(relation);
+}
+
+export function formatSuspects(
+  report: SuspectReport,
+  format: OutputFormat,
+  options: { redact?: boolean; fields?: string } = {}
+): string {
+  let data = report;
+
+  if (options.redact) {
+    data = redactObject(data);
+  }
+
+  if (format !== 'table') {
+    return renderRecords([data], format, { kind: 'suspects', fields: options.fields, single: true });
+  }
+
+  const lines: string[] = [];
+  lines.push(chalk.bold(`${data.shortId}  ${data.title}`));
+  lines.push(chalk.gray(`First seen ${formatTimeAgo(data.firstSeen)}, event ${data.eventId}`));
+
+  if (data.frames.length === 0) {
+    lines.push('', chalk.gray('No in-app frames were found in the local checkout'));
+    return lines.join('\n');
+  }
+
+  lines.push('', chalk.bold('Frames:'));
+  const frames = new Table({
+    head: [chalk.cyan('#'), chalk.cyan('Location'), chalk.cyan('Commit'), chalk.cyan('Author'), chalk.cyan('Owners')],
+    colWidths: [5, 42, 10, 20, 22],
+    wordWrap: true,
+  });
+  for (const frame of data.frames) {
+    const location = `${frame.path}:${frame.lineNo}` + (frame.drift ? chalk.yellow(' (drifted)') : '');
+    const commit = !frame.blame
+      ? chalk.gray('-')
+      : frame.blame.committed ? frame.blame.commit.slice(0, 8) : chalk.yellow('local');
+    frames.push([
+      String(frame.index),
+      location,
+      commit,
+      frame.blame?.committed ? truncate(frame.blame.author, 17) : '-',
+      frame.owners.join(' ') || chalk.gray('-'),
     ]);
   }
+  lines.push(frames.toString());
 
-  return table.toString();
+  if (data.commits.length > 0) {
+    lines.push('', chalk.bold('Suspect commits:'));
+    const commits = new Table({
+      head: [chalk.cyan('Commit'), chalk.cyan('Author'), chalk.cyan('When'), chalk.cyan('Summary'), chalk.cyan('Frames')],
+      colWidths: [10, 22, 24, 34, 9],
+      wordWrap: true,
+    });
+    for (const commit of data.commits) {
+      commits.push([
+        commit.commit.slice(0, 8),
+        truncate(commit.email ? `${commit.author} <${commit.email}>` : commit.author, 19),
+        firstSeenRelation(commit.firstSeenDelta),
+        truncate(commit.summary, 31),
+        commit.frames.join(','),
+      ]);
+    }
+    lines.push(commits.toString());
+  }
+
+  if (data.owners.length > 0) {
+    lines.push('', chalk.bold('Owners:'));
+    for (const { owner, files } of data.owners) {
+      lines.push(`  ${chalk.green(owner)} ${chalk.gray(files.join(', '))}`);
+    }
+  }
+
+  return lines.join('\n');
 }
 
 // Event formatting
 export function formatEvents(
   events: SentryEvent[],
   format: OutputFormat,
-  options: { redact?: boolean; fields?: string; expand?: boolean } = {}
+  options: {
+    redact?: boolean;
+    fields?: string;
+    expand?: boolean;
+    stack?: StackMode;
+    columns?: string;
+    template?: string;
+  } = {}
 ): string {
-  let data: SentryEvent[] | Partial<SentryEvent>[] = events;
+  let data = events;
 
   if (options.redact) {
     data = redactObject(data);
   }
 
-  if (options.fields) {
-    const fieldList = options.fields.split(',').map((f) => f.trim());
-    data = filterArrayFields(data as SentryEvent[], fieldList);
+  if (options.template) {
+    return renderTemplateLines(data, options.template);
   }
 
-  if (format === 'json') {
-    return JSON.stringify(data, null, 2);
+  if (format !== 'table') {
+    const details = options.expand && getFormatter(format).showsDetails
+      ? data.map((event) => ({
+          summary: `${event.eventID} ${event.title || event.message || ''}`.trim(),
+          body: formatEventDetail(event, { stack: options.stack }),
+        }))
+      : undefined;
+    return renderRecords(data, format, { kind: 'event', fields: options.fields, details });
   }
 
   // Table format
-  if (events.length === 0) {
+  if (data.length === 0) {
     return chalk.gray('No events found');
   }
 
-  const table = new Table({
-    head: [
-      chalk.cyan('Event ID'),
-      chalk.cyan('Time'),
-      chalk.cyan('Exception'),
-      chalk.cyan('Message'),
-    ],
-    colWidths: [14, 12, 25, 40],
-    wordWrap: true,
-  });
-
-  for (const event of events) {
-    const exceptionType = getExceptionType(event);
-    const message = event.title || event.message || '-';
-
-    table.push([
-      event.eventID.slice(0, 12),
-      formatTimeAgo(event.dateCreated),
-      truncate(exceptionType, 22),
-      truncate(message, 37),
-    ]);
-  }
-
-  let output = table.toString();
+  const columns: TableColumn<SentryEvent>[] = options.columns
+    ? parseColumns(options.columns)
+    : EVENT_COLUMNS;
+  let output = renderColumnTable(data, columns);
 
   // If expand is set, add detailed info for each event
   if (options.expand) {
     output += '\n\n' + chalk.bold('Event Details:\n');
-    for (const event of events) {
-      output += formatEventDetail(event);
+    for (const event of data) {
+      output += formatEventDetail(event, { stack: options.stack });
       output += '\n' + chalk.gray('─'.repeat(80)) + '\n';
     }
   }
@@ -163,8 +574,47 @@ export function formatEvents(
   return output;
 }
 
-// Single event detail formatting
-export function formatEventDetail(event: SentryEvent): string {
+// Single event formatting (JSON object or detail view)
+export function formatEvent(
+  event: SentryEvent,
+  format: OutputFormat,
+  options: { redact?: boolean; fields?: string } = {}
+): string {
+  let data = event;
+
+  if (options.redact) {
+    data = redactObject(event);
+  }
+
+  if (format !== 'table') {
+    return renderRecords([data], format, { kind: 'event', fields: options.fields, single: true });
+  }
+
+  return formatEventDetail(data);
+}
+
+// Stacktrace of one event: the normalized structure, or the rendered frames
+export function formatEventStack(
+  event: SentryEvent,
+  format: OutputFormat,
+  options: StackRenderOptions & { redact?: boolean; fields?: string; repo?: RepoMapping }
+): string {
+  const stack = normalizeStack(options.redact ? redactObject(event) : event);
+  if (options.repo) mapStackToRepo(stack, options.repo);
+
+  if (format !== 'table') {
+    return renderRecords([stack], format, { kind: 'stack', fields: options.fields, single: true });
+  }
+
+  return formatStack(stack, options);
+}
+
+// Single event detail formatting. With `stack`, exceptions get the full
+// stacktrace renderer instead of the last five frames.
+export function formatEventDetail(
+  event: SentryEvent,
+  options: { stack?: StackMode } = {}
+): string {
   const lines: string[] = [];
 
   lines.push(chalk.bold(`Event: ${event.eventID}`));
@@ -183,6 +633,8 @@ export function formatEventDetail(event: SentryEvent): string {
       event.user.id && `id:${event.user.id}`,
       event.user.email && `email:${event.user.email}`,
       event.user.username && `user:${event.user.username}`,
+      event.user.name && `name:${event.user.name}`,
+      event.user.ip_address && `ip:${event.user.ip_address}`,
     ]
       .filter(Boolean)
       .join(' ');
@@ -190,8 +642,13 @@ export function formatEventDetail(event: SentryEvent): string {
   }
 
   // Exception details
-  const exception = getExceptionEntry(event);
-  if (exception) {
+  const exception = getEntry(event, 'exception');
+  if (exception && options.stack) {
+    lines.push('');
+    lines.push(chalk.bold('Exception:'));
+    const stack = formatStack(normalizeStack(event), { mode: options.stack });
+    lines.push(...stack.split('\n').map((line) => (line ? `  ${line}` : line)));
+  } else if (exception) {
     lines.push('');
     lines.push(chalk.bold('Exception:'));
     for (const value of exception.values || []) {
@@ -216,45 +673,714 @@ export function formatEventDetail(event: SentryEvent): string {
   }
 
   // Breadcrumbs
-  const breadcrumbs = getBreadcrumbsEntry(event);
+  const breadcrumbs = getEntry(event, 'breadcrumbs');
   if (breadcrumbs && breadcrumbs.values && breadcrumbs.values.length > 0) {
     lines.push('');
     lines.push(chalk.bold('Breadcrumbs (last 5):'));
     const crumbs = breadcrumbs.values.slice(-5);
     for (const crumb of crumbs) {
-      const time = crumb.timestamp
-        ? new Date(crumb.timestamp).toISOString().slice(11, 19)
-        : '??:??:??';
+      const ms = timestampMs(crumb.timestamp);
+      const time = ms !== undefined ? new Date(ms).toISOString().slice(11, 19) : '??:??:??';
       const cat = crumb.category || crumb.type || 'default';
-      const msg = crumb.message || JSON.stringify(crumb.data) || '';
+      const msg = describeBreadcrumb(crumb);
       lines.push(chalk.gray(`  [${time}]`) + ` ${cat}: ${truncate(msg, 50)}`);
     }
   }
 
+  // Log message (events captured without an exception)
+  const message = getEntry(event, 'message');
+  const messageText = message?.formatted || message?.message;
+  if (messageText && !exception) {
+    lines.push('');
+    lines.push(chalk.bold('Message:'));
+    lines.push(`  ${messageText}`);
+  }
+
+  const request = getEntry(event, 'request');
+  if (request && (request.url || request.method)) {
+    lines.push('', chalk.bold('Request:'), ...formatRequest(request));
+  }
+
+  const contexts = formatContexts(parseContexts(event.contexts));
+  if (contexts.length > 0) {
+    lines.push('', chalk.bold('Contexts:'), ...contexts);
+  }
+
+  const tags = parseTags(event.tags);
+  if (tags.length > 0) {
+    lines.push('');
+    lines.push(chalk.bold('Tags:'));
+    const table = new Table({
+      head: [chalk.cyan('Key'), chalk.cyan('Value')],
+      colWidths: [24, 56],
+      wordWrap: true,
+    });
+    for (const tag of tags) {
+      table.push([tag.key, truncate(tag.value, 53)]);
+    }
+    lines.push(table.toString());
+  }
+
+  if (event.sdk?.name) {
+    lines.push('');
+    lines.push(chalk.gray(`SDK: ${event.sdk.name} ${event.sdk.version || ''}`.trim()));
+  }
+
+  return lines.join('\n');
+}
+
+// Request entry: headers, cookies and query are always redacted here, since
+// the detail view is what gets pasted into tickets and chats
+function formatRequest(request: RequestData): string[] {
+  const lines: string[] = [];
+  const safeQuery = redactQuery(parsePairs(request.query));
+
+  const queryString = safeQuery?.length
+    ? '?' + safeQuery.map(([key, value]) => (value ? `${key}=${value}` : key)).join('&')
+    : '';
+  const url = request.url ? redactString(request.url) + queryString : queryString;
+  lines.push(`  ${chalk.bold(request.method || 'GET')} ${url}`);
+
+  const headers = redactHeaders(request.headers);
+  if (headers && headers.length > 0) {
+    lines.push(chalk.gray('  Headers:'));
+    for (const [key, value] of headers) {
+      lines.push(`    ${chalk.cyan(key)}: ${truncate(value, 70)}`);
+    }
+  }
+
+  const cookies = redactCookies(request.cookies);
+  if (cookies && cookies.length > 0) {
+    lines.push(chalk.gray('  Cookies: ') + cookies.map(([key, value]) => `${key}=${value}`).join('; '));
+  }
+
+  if (request.data !== undefined && request.data !== null && request.data !== '') {
+    const body = redactObject(request.data);
+    const text = typeof body === 'string' ? body : JSON.stringify(body);
+    lines.push(chalk.gray('  Body: ') + truncate(text, 200));
+  }
+
+  return lines;
+}
+
+function formatContexts(contexts: EventContexts): string[] {
+  const lines: string[] = [];
+  const join = (...parts: Array<string | undefined>) => parts.filter(Boolean).join(' ');
+
+  if (contexts.runtime?.name) {
+    lines.push(`  Runtime: ${join(contexts.runtime.name, contexts.runtime.version)}`);
+  }
+  if (contexts.os?.name) {
+    const kernel = contexts.os.kernelVersion && chalk.gray(`(${contexts.os.kernelVersion})`);
+    lines.push(`  OS: ${join(contexts.os.name, contexts.os.version, kernel)}`);
+  }
+  if (contexts.browser?.name) {
+    lines.push(`  Browser: ${join(contexts.browser.name, contexts.browser.version)}`);
+  }
+  if (contexts.device && Object.keys(contexts.device).length > 0) {
+    const { brand, family, model, arch } = contexts.device;
+    lines.push(`  Device: ${join(brand, family, model, arch && chalk.gray(`(${arch})`))}`);
+  }
+  if (contexts.trace?.traceId) {
+    const details = join(contexts.trace.op, contexts.trace.status);
+    lines.push(`  Trace: ${contexts.trace.traceId}${details ? chalk.gray(` ${details}`) : ''}`);
+  }
+
+  return lines;
+}
+
+// Breadcrumb timeline, ending with the exception
+export function formatBreadcrumbs(
+  event: SentryEvent,
+  format: OutputFormat,
+  options: BreadcrumbFilter & { redact?: boolean; fields?: string } = {}
+): string {
+  const timeline = buildTimeline(options.redact ? redactObject(event) : event, options);
+
+  if (format !== 'table') {
+    return renderRecords(timeline, format, { kind: 'breadcrumb', fields: options.fields });
+  }
+
+  const width = Math.max(...timeline.map((entry) => formatOffset(entry.offsetMs).length));
+  const categoryWidth = Math.min(16, Math.max(...timeline.map((entry) => entry.category.length)));
+
+  const lines = timeline.map((entry, i) => {
+    const offset = chalk.gray(formatOffset(entry.offsetMs).padStart(width));
+    const category = truncate(entry.category, 16).padEnd(categoryWidth);
+    const level = colorLevel(entry.level) + ' '.repeat(Math.max(0, 7 - entry.level.length));
+    const last = i === timeline.length - 1;
+    const message = last ? chalk.red.bold(entry.message) : entry.message;
+    return `${offset}  ${last ? chalk.red(category) : chalk.cyan(category)}  ${level}  ${message}`;
+  });
+
+  // Only the exception is left
+  if (timeline.length === 1) {
+    lines.unshift(chalk.gray('No breadcrumbs found'));
+  }
+
+  return lines.join('\n');
+}
+
+// Event comparison: unified diff per section, or the change list
+const DIFF_COLORS = { ' ': chalk.gray, '-': chalk.red, '+': chalk.green };
+
+export function formatEventDiff(
+  diff: EventDiff,
+  format: OutputFormat,
+  options: { redact?: boolean; fields?: string } = {}
+): string {
+  let data = diff;
+
+  if (options.redact) {
+    data = redactObject(data);
+  }
+
+  if (format !== 'table') {
+    const { before, after, changes } = data;
+    return renderRecords([{ before, after, identical: changes.length === 0, changes }], format, {
+      kind: 'diff',
+      fields: options.fields,
+      single: true,
+    });
+  }
+
+  const lines: string[] = [];
+  lines.push(chalk.red(`--- ${data.before.label}`));
+  lines.push(chalk.green(`+++ ${data.after.label}`));
+
+  for (const section of data.sections) {
+    const changed = section.lines.filter((line) => line.op !== ' ').length;
+    if (section.lines.length === 0) continue;
+
+    if (changed === 0) {
+      lines.push(chalk.gray(`  ${section.name}: ${section.lines.length} unchanged`));
+      continue;
+    }
+
+    lines.push(chalk.cyan(`@@ ${section.name} @@`));
+    for (const line of section.lines) {
+      lines.push(DIFF_COLORS[line.op](`${line.op} ${line.text}`));
+    }
+  }
+
+  lines.push('');
+  lines.push(
+    data.changes.length === 0
+      ? chalk.green('No differences (after ignoring timestamps, addresses and IDs)')
+      : chalk.bold(`${data.changes.length} difference${data.changes.length === 1 ? '' : 's'}`)
+  );
+
+  return lines.join('\n');
+}
+
+// Releases
+const RELEASE_COLUMNS: TableColumn<SentryRelease>[] = [
+  { header: 'Version', value: (release) => release.shortVersion || release.version },
+  { header: 'Projects', value: (release) => release.projects?.map((p) => p.slug).join(', ') || '-' },
+  { header: 'Released', value: (release) => formatTimeAgo(release.dateReleased || release.dateCreated) },
+  {
+    header: 'New Issues',
+    path: 'newGroups',
+    style: (text) => (text !== '0' && text !== '-' ? chalk.yellow(text) : text),
+  },
+  {
+    header: 'Last Deploy',
+    value: (release) => release.lastDeploy
+      ? `${release.lastDeploy.environment} ${formatTimeAgo(release.lastDeploy.dateFinished)}`
+      : '-',
+  },
+  { header: 'Commits', path: 'commitCount' },
+];
+
+export function formatReleases(
+  releases: SentryRelease[],
+  format: OutputFormat,
+  options: { redact?: boolean; fields?: string } = {}
+): string {
+  let data = releases;
+
+  if (options.redact) {
+    data = redactObject(data);
+  }
+
+  if (format !== 'table') {
+    return renderRecords(data, format, { kind: 'release', fields: options.fields });
+  }
+
+  if (data.length === 0) {
+    return chalk.gray('No releases found');
+  }
+
+  return renderColumnTable(data, RELEASE_COLUMNS);
+}
+
+// A change in events per hour counts as a real move past this fraction
+const RELEASE_CHANGE_THRESHOLD = 0.5;
+
+function formatRate(rate: number): string {
+  return rate < 10 ? rate.toFixed(1) : String(Math.round(rate));
+}
+
+function formatRateChange(comparison: ReleaseIssueComparison): string {
+  if (comparison.previousCount === 0 && comparison.count > 0) return 'new';
+  if (comparison.change === null) return '-';
+  const pct = Math.round(comparison.change * 100);
+  return `${pct > 0 ? '+' : ''}${pct}%`;
+}
+
+function isWorse(comparison: ReleaseIssueComparison): boolean {
+  return (
+    (comparison.previousCount === 0 && comparison.count > 0) ||
+    (comparison.change !== null && comparison.change >= RELEASE_CHANGE_THRESHOLD)
+  );
+}
+
+const RELEASE_ISSUE_COLUMNS: TableColumn<ReleaseIssueComparison>[] = [
+  { header: 'ID', path: 'shortId' },
+  { header: 'Level', path: 'level' },
+  { header: 'Title', path: 'title' },
+  { header: 'Events', path: 'count' },
+  { header: 'Per Hour', value: (c) => formatRate(c.perHour) },
+  { header: 'Before', value: (c) => (c.previousPerHour === null ? '-' : formatRate(c.previousPerHour)) },
+  {
+    header: 'Change',
+    value: formatRateChange,
+    style: (text, c) =>
+      isWorse(c) ? chalk.red(text)
+        : c.change !== null && c.change <= -RELEASE_CHANGE_THRESHOLD ? chalk.green(text)
+          : text,
+  },
+];
+
+export function formatReleaseReport(
+  report: ReleaseReport,
+  format: OutputFormat,
+  options: { redact?: boolean; fields?: string } = {}
+): string {
+  let data = report;
+
+  if (options.redact) {
+    data = redactObject(data);
+  }
+
+  if (format !== 'table') {
+    return renderRecords([data], format, { kind: 'releaseReport', fields: options.fields, single: true });
+  }
+
+  const { release, previous } = data;
+  const lines: string[] = [];
+  lines.push(chalk.bold(`Release ${release.version}`) + (data.project ? chalk.gray(` (${data.project})`) : ''));
+
+  const facts = [`Released ${formatTimeAgo(release.dateReleased || release.dateCreated)}`];
+  if (release.lastDeploy) {
+    facts.push(`deployed to ${release.lastDeploy.environment} ${formatTimeAgo(release.lastDeploy.dateFinished)}`);
+  }
+  if (release.commitCount) facts.push(`${release.commitCount} commits`);
+  lines.push(chalk.gray(facts.join(', ')));
+  lines.push(chalk.gray(
+    previous
+      ? `Compared with ${previous.version}, released ${formatTimeAgo(previous.dateReleased || previous.dateCreated)}`
+      : 'No earlier release to compare with'
+  ));
+
+  const section = (title: string, issues: SentryIssue[], empty: string) => {
+    lines.push('', chalk.bold(`${title} (${issues.length}):`));
+    lines.push(issues.length > 0 ? renderColumnTable(issues, ISSUE_COLUMNS) : chalk.gray(`  ${empty}`));
+  };
+  section('New issues', data.newIssues, 'None first seen in this release');
+  section('Regressions', data.regressions, 'No resolved issues came back');
+
+  lines.push('', chalk.bold('Top issues:'));
+  lines.push(
+    data.topIssues.length > 0
+      ? renderColumnTable(data.topIssues, RELEASE_ISSUE_COLUMNS)
+      : chalk.gray('  No events in this release')
+  );
+
+  const worse = data.topIssues.filter(isWorse).length;
+  const summary = [
+    `${data.newIssues.length} new issue${data.newIssues.length === 1 ? '' : 's'}`,
+    `${data.regressions.length} regression${data.regressions.length === 1 ? '' : 's'}`,
+  ];
+  if (previous) {
+    summary.push(`${worse} top issue${worse === 1 ? '' : 's'} worse than before`);
+  }
+  const alarming = data.newIssues.length + data.regressions.length + worse > 0;
+  lines.push('', (alarming ? chalk.yellow.bold : chalk.green.bold)(summary.join(', ')));
+
+  return lines.join('\n');
+}
+
+// Discover search results. Row keys are field names such as "count()" or
+// "user.email", so --fields picks them verbatim instead of as paths.
+function searchCell(value: unknown, type: string | undefined): string {
+  if (value === null || value === undefined || value === '') return '-';
+  if (Array.isArray(value)) return value.join(', ') || '-';
+  if (typeof value === 'number') {
+    if (type === 'duration') return value < 1000 ? `${Math.round(value)}ms` : `${(value / 1000).toFixed(2)}s`;
+    if (type === 'percentage') return `${(value * 100).toFixed(1)}%`;
+    return Number.isInteger(value) ? String(value) : value.toFixed(2);
+  }
+  if (type === 'date' && typeof value === 'string' && ISO_DATE.test(value)) return formatTimeAgo(value);
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value).replace(/\s*\n\s*/g, ' ');
+}
+
+export function formatSearchResults(
+  result: SearchResult,
+  format: OutputFormat,
+  options: { redact?: boolean; fields?: string } = {}
+): string {
+  let rows = result.data;
+
+  if (options.redact) {
+    rows = redactObject(rows);
+  }
+
+  const fields = options.fields ? splitFieldList(options.fields) : result.fields;
+  const records = rows.map((row) =>
+    Object.fromEntries(fields.filter((field) => field in row).map((field) => [field, row[field]]))
+  );
+
+  if (format !== 'table') {
+    return renderRecords(records, format, { kind: 'search' });
+  }
+
+  if (records.length === 0) {
+    return chalk.gray('No results');
+  }
+
+  const types = result.meta?.fields || {};
+  const columns: TableColumn<DiscoverRow>[] = fields.map((field) => ({
+    header: field,
+    value: (row) => searchCell(row[field], types[field]),
+    style: field === 'level' ? (text) => colorLevel(text) : undefined,
+  }));
+  return renderColumnTable(records, columns);
+}
+
+// `slog check` results
+const CHECK_STATUS_COLORS: Record<CheckStatus, (text: string) => string> = {
+  pass: chalk.green,
+  fail: chalk.red.bold,
+  error: chalk.yellow,
+};
+
+function checkValue(result: CheckResult): string {
+  if (result.value === null) return '-';
+  return result.capped ? `${result.value}+` : String(result.value);
+}
+
+const CHECK_COLUMNS: TableColumn<CheckResult>[] = [
+  {
+    header: 'Status',
+    value: (r) => r.status.toUpperCase(),
+    style: (text, r) => CHECK_STATUS_COLORS[r.status](text),
+  },
+  { header: 'Rule', value: (r) => r.rule.name },
+  { header: 'Value', value: checkValue },
+  { header: 'Fails When', value: (r) => `${r.rule.operator} ${r.rule.threshold}` },
+];
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// JUnit XML as read by CI test report views: one test case per rule
+function checkReportJUnit(report: CheckReport): string {
+  const seconds = (ms: number) => (ms / 1000).toFixed(3);
+  const total = report.results.reduce((sum, r) => sum + r.durationMs, 0);
+  const counts = `tests="${report.results.length}" failures="${report.failed}" errors="${report.errors}" time="${seconds(total)}"`;
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="slog check" ${counts}>`,
+    `  <testsuite name="slog check" ${counts}>`,
+  ];
+
+  for (const result of report.results) {
+    const { rule } = result;
+    const attrs = `name="${escapeXml(rule.name)}" classname="slog.check.${rule.metric}" time="${seconds(result.durationMs)}"`;
+    const detail = `${describeRule(rule)}: value ${checkValue(result)}`;
+
+    if (result.status === 'pass') {
+      lines.push(`    <testcase ${attrs}/>`);
+    } else if (result.status === 'fail') {
+      lines.push(
+        `    <testcase ${attrs}>`,
+        `      <failure message="${escapeXml(`${checkValue(result)} ${rule.operator} ${rule.threshold}`)}" type="threshold">${escapeXml(detail)}</failure>`,
+        '    </testcase>'
+      );
+    } else {
+      lines.push(
+        `    <testcase ${attrs}>`,
+        `      <error message="${escapeXml(result.error?.split('\n')[0] ?? 'error')}" type="error">${escapeXml(result.error ?? '')}</error>`,
+        '    </testcase>'
+      );
+    }
+  }
+
+  lines.push('  </testsuite>', '</testsuites>');
   return lines.join('\n');
 }
 
+export function formatCheckReport(
+  report: CheckReport,
+  format: OutputFormat,
+  options: { redact?: boolean; fields?: string } = {}
+): string {
+  let data = report;
+
+  if (options.redact) {
+    data = redactObject(data);
+  }
+
+  if (format === 'junit') {
+    return checkReportJUnit(data);
+  }
+
+  if (format !== 'table') {
+    return renderRecords([data], format, { kind: 'checkReport', fields: options.fields, single: true });
+  }
+
+  const lines = [renderColumnTable(data.results, CHECK_COLUMNS)];
+
+  const errors = data.results.filter((r) => r.error);
+  if (errors.length > 0) {
+    lines.push('');
+    for (const result of errors) {
+      lines.push(chalk.yellow(`${result.rule.name}: ${result.error}`));
+    }
+  }
+
+  const summary = `${data.passed} passed, ${data.failed} failed, ${data.errors} error${data.errors === 1 ? '' : 's'}`;
+  lines.push('', chalk.bold(CHECK_STATUS_COLORS[data.status](summary)));
+
+  return lines.join('\n');
+}
+
+// `slog report` digest. Sections are built once as plain tables, then
+// written as Markdown or a self-contained HTML page.
+interface DigestCell {
+  text: string;
+  href?: string;
+  className?: string;
+}
+
+interface DigestTable {
+  title: string;
+  columns: string[];
+  rows: DigestCell[][];
+  empty: string;
+}
+
+const DIGEST_TITLE_WIDTH = 100;
+
+function digestNumber(value: number): DigestCell {
+  return { text: value.toLocaleString('en-US'), className: 'num' };
+}
+
+function digestCount(count: DigestCount): DigestCell {
+  const cell = digestNumber(count.count);
+  return count.capped ? { ...cell, text: `${cell.text}+` } : cell;
+}
+
+function digestDate(iso: string): string {
+  return `${iso.slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+function digestIssueTable(title: string, issues: SentryIssue[], empty: string): DigestTable {
+  return {
+    title,
+    columns: ['Issue', 'Title', 'Project', 'Events', 'Users', 'Trend'],
+    rows: issues.map((issue) => [
+      { text: issue.shortId, href: issue.permalink },
+      { text: truncate(issue.title.replace(/\s+/g, ' '), DIGEST_TITLE_WIDTH) },
+      { text: issue.project?.slug ?? '-' },
+      digestNumber(Number(issue.count) || 0),
+      digestNumber(issue.userCount || 0),
+      { text: formatTrend(issue.trend), className: issue.trend ? `trend-${issue.trend.direction}` : undefined },
+    ]),
+    empty,
+  };
+}
+
+function digestTotalsTable(title: string, label: string, totals: DigestTotals[]): DigestTable {
+  return {
+    title,
+    columns: [label, 'Events', 'Users', 'Issues'],
+    rows: totals.map((t) => [{ text: t.name }, digestNumber(t.events), digestNumber(t.users), digestNumber(t.issues)]),
+    empty: 'No events',
+  };
+}
+
+function digestTables(digest: Digest): DigestTable[] {
+  const { totals, counts } = digest;
+  return [
+    {
+      title: 'Summary',
+      columns: ['Events', 'Users', 'Issues', 'New', 'Regressed', 'Now resolved'],
+      rows: [[
+        digestNumber(totals.events),
+        digestNumber(totals.users),
+        digestNumber(totals.issues),
+        digestCount(counts.newIssues),
+        digestCount(counts.regressed),
+        digestCount(counts.resolved),
+      ]],
+      empty: '',
+    },
+    digestTotalsTable('By project', 'Project', digest.projects),
+    digestTotalsTable('By environment', 'Environment', digest.environments),
+    digestIssueTable('Top issues by events', digest.topByEvents, 'No unresolved issues'),
+    digestIssueTable('Top issues by users', digest.topByUsers, 'No unresolved issues'),
+    digestIssueTable(`New issues (${digestCount(counts.newIssues).text})`, digest.newIssues, 'No new issues'),
+    digestIssueTable(`Regressed issues (${digestCount(counts.regressed).text})`, digest.regressed, 'No regressions'),
+  ];
+}
+
+// Org, period and filters, for under the heading
+function digestScope(digest: Digest): string {
+  const filters = [
+    digest.project && `project ${digest.project}`,
+    digest.env && `environment ${digest.env}`,
+    digest.level && `level ${digest.level}`,
+  ].filter(Boolean);
+  return [`${digestDate(digest.start)} to ${digestDate(digest.end)}`, ...filters].join(' · ');
+}
+
+// Trends come from the stats series ending now, whatever range the report
+// covers, so the report says which periods they compare
+function digestTrendNote(digest: Digest): string {
+  const half = digest.statsPeriod === '24h' ? '12 hours' : '7 days';
+  return `Trends compare the last ${half} with the ${half} before`;
+}
+
+function markdownText(text: string): string {
+  return text.replace(/\s+/g, ' ').replace(/([\\|*_`[\]<>])/g, '\\$1');
+}
+
+function digestMarkdown(digest: Digest): string {
+  const lines = [
+    `# Sentry digest: ${markdownText(digest.org)}`,
+    '',
+    `${markdownText(digestScope(digest))}  `,
+    `Generated ${digestDate(digest.generatedAt)}  `,
+    digestTrendNote(digest),
+  ];
+
+  for (const table of digestTables(digest)) {
+    lines.push('', `## ${markdownText(table.title)}`, '');
+    if (table.rows.length === 0) {
+      lines.push(`_${table.empty}_`);
+      continue;
+    }
+    lines.push(`| ${table.columns.join(' | ')} |`);
+    lines.push(`| ${table.columns.map((_, i) => (table.rows[0][i].className === 'num' ? '---:' : '---')).join(' | ')} |`);
+    for (const row of table.rows) {
+      const cells = row.map((cell) =>
+        cell.href ? `[${markdownText(cell.text)}](${cell.href.replace(/[()\s]/g, encodeURIComponent)})` : markdownText(cell.text)
+      );
+      lines.push(`| ${cells.join(' | ')} |`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+const DIGEST_STYLE = `
+  body { font: 14px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; color: #1f2328; max-width: 1100px; margin: 2em auto; padding: 0 1em; }
+  h1 { font-size: 1.6em; margin-bottom: 0.2em; }
+  h2 { font-size: 1.2em; margin-top: 1.8em; border-bottom: 1px solid #d0d7de; padding-bottom: 0.3em; }
+  .meta, .empty { color: #656d76; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { text-align: left; padding: 4px 10px; border-bottom: 1px solid #eaeef2; vertical-align: top; }
+  th { background: #f6f8fa; }
+  .num { text-align: right; font-variant-numeric: tabular-nums; }
+  a { color: #0969da; text-decoration: none; }
+  .trend-rising { color: #cf222e; }
+  .trend-new { color: #9a6700; }
+  .trend-falling { color: #1a7f37; }
+  .trend-flat { color: #656d76; }
+`;
+
+function digestHtml(digest: Digest): string {
+  const title = `Sentry digest: ${digest.org}`;
+  const cellHtml = (cell: DigestCell, tag: 'td' | 'th') => {
+    const content = cell.href
+      ? `<a href="${escapeXml(cell.href)}">${escapeXml(cell.text)}</a>`
+      : escapeXml(cell.text);
+    return `<${tag}${cell.className ? ` class="${cell.className}"` : ''}>${content}</${tag}>`;
+  };
+
+  const body: string[] = [
+    `<h1>${escapeXml(title)}</h1>`,
+    `<p class="meta">${escapeXml(digestScope(digest))}<br>Generated ${escapeXml(digestDate(digest.generatedAt))}<br>${escapeXml(digestTrendNote(digest))}</p>`,
+  ];
+
+  for (const table of digestTables(digest)) {
+    body.push(`<h2>${escapeXml(table.title)}</h2>`);
+    if (table.rows.length === 0) {
+      body.push(`<p class="empty">${escapeXml(table.empty)}</p>`);
+      continue;
+    }
+    const numeric = table.columns.map((_, i) => table.rows[0][i].className === 'num');
+    body.push(
+      '<table>',
+      `<thead><tr>${table.columns.map((c, i) => cellHtml({ text: c, className: numeric[i] ? 'num' : undefined }, 'th')).join('')}</tr></thead>`,
+      '<tbody>',
+      ...table.rows.map((row) => `<tr>${row.map((cell) => cellHtml(cell, 'td')).join('')}</tr>`),
+      '</tbody>',
+      '</table>'
+    );
+  }
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeXml(title)}</title>`,
+    `<style>${DIGEST_STYLE}</style>`,
+    '</head>',
+    '<body>',
+    ...body,
+    '</body>',
+    '</html>',
+  ].join('\n');
+}
+
+/**
+ * Render a digest as Markdown, HTML or any record format. Digests are
+ * meant to be shared, so free text is always redacted.
+ */
+export function formatDigest(
+  digest: Digest,
+  format: OutputFormat,
+  options: { fields?: string } = {}
+): string {
+  const data = redactObject(digest);
+
+  if (format === 'markdown' || format === 'md') return digestMarkdown(data);
+  if (format === 'html') return digestHtml(data);
+  return renderRecords([data], format, { kind: 'digest', fields: options.fields, single: true });
+}
+
 // Helper functions
 function getExceptionType(event: SentryEvent): string {
-  const exception = getExceptionEntry(event);
+  const exception = getEntry(event, 'exception');
   if (exception?.values?.[0]) {
     return exception.values[0].type;
   }
   return event.metadata?.type as string || '-';
 }
 
-function getExceptionEntry(event: SentryEvent): ExceptionData | null {
-  if (!event.entries) return null;
-  const entry = event.entries.find((e) => e.type === 'exception');
-  return entry?.data as ExceptionData | null;
-}
-
-function getBreadcrumbsEntry(event: SentryEvent): BreadcrumbData | null {
-  if (!event.entries) return null;
-  const entry = event.entries.find((e) => e.type === 'breadcrumbs');
-  return entry?.data as BreadcrumbData | null;
-}
-
 function formatFrameLocation(frame: StackFrame): string {
   const filename = frame.filename || frame.absPath || frame.module || '?';
   const func = frame.function || '?';
@@ -264,11 +1390,18 @@ function formatFrameLocation(frame: StackFrame): string {
   return `${filename}${line}${col} in ${func}`;
 }
 
-// Tail output (single event, compact)
+// Tail output (single event, compact). `header` asks tabular formats
+// for a header row, which streams want only with their first record.
 export function formatTailEvent(
   event: SentryEvent,
   format: OutputFormat,
-  options: { redact?: boolean } = {}
+  options: {
+    redact?: boolean;
+    fields?: string;
+    header?: boolean;
+    columns?: string;
+    template?: string;
+  } = {}
 ): string {
   let data: SentryEvent = event;
 
@@ -276,14 +1409,101 @@ export function formatTailEvent(
     data = redactObject(data);
   }
 
-  if (format === 'json') {
-    return JSON.stringify(data);
+  if (options.template) {
+    return renderTemplate(options.template, data);
   }
 
-  const time = new Date(event.dateCreated).toISOString().slice(11, 19);
-  const exceptionType = getExceptionType(event);
-  const message = truncate(event.title || event.message || '-', 60);
-  const env = event.environment || '-';
+  if (format !== 'table') {
+    return renderRecords([data], format, {
+      kind: 'event',
+      fields: options.fields,
+      stream: true,
+      header: options.header,
+    });
+  }
+
+  if (options.columns) {
+    return parseColumns(options.columns)
+      .map((column) => styleCell(column, cellText(column, data), data))
+      .join('  ');
+  }
+
+  const time = new Date(data.dateCreated).toISOString().slice(11, 19);
+  const exceptionType = getExceptionType(data);
+  const message = truncate(data.title || data.message || '-', 60);
+  const env = data.environment || '-';
 
   return `${chalk.gray(time)} ${chalk.yellow(exceptionType)} ${chalk.blue(`[${env}]`)} ${message}`;
 }
+
+// Issue webhook output (single issue, compact, like formatTailEvent)
+export function formatTailIssue(
+  issue: SentryIssue,
+  action: string,
+  format: OutputFormat,
+  options: { redact?: boolean; fields?: string; header?: boolean } = {}
+): string {
+  let data: SentryIssue = issue;
+
+  if (options.redact) {
+    data = redactObject(data);
+  }
+
+  if (format !== 'table') {
+    return renderRecords([{ action, ...data }], format, {
+      kind: 'issue',
+      fields: options.fields,
+      stream: true,
+      header: options.header,
+    });
+  }
+
+  const time = new Date().toISOString().slice(11, 19);
+  const title = truncate(data.title, 60);
+
+  return `${chalk.gray(time)} ${chalk.magenta(`[issue ${action}]`)} ${data.shortId} ${colorLevel(data.level)} ${title}`;
+}
+
+// Tail --aggregate output (one line per issue in the window)
+export function formatAggregateSummary(
+  summaries: AggregateSummary[],
+  format: OutputFormat,
+  options: { redact?: boolean; window: string; header?: boolean }
+): string {
+  let data = summaries;
+
+  if (options.redact) {
+    data = redactObject(data);
+  }
+
+  if (format !== 'table') {
+    const at = new Date().toISOString();
+    const records = data.map((summary) => ({ type: 'summary', window: options.window, at, ...summary }));
+    return renderRecords(records, format, { kind: 'summary', stream: true, header: options.header });
+  }
+
+  const total = data.reduce((sum, s) => sum + s.count, 0);
+  const lines = [
+    chalk.gray(`Last ${options.window}: ${data.length} issue(s), ${total} event(s)`),
+  ];
+
+  if (data.length === 0) {
+    lines.push(chalk.gray('  No events in window'));
+  }
+
+  for (const summary of data) {
+    const first = summary.firstSeen.slice(11, 19);
+    const last = summary.lastSeen.slice(11, 19);
+    const id = summary.shortId || summary.issueId;
+    const count = `${summary.count}×`.padStart(6);
+    const envs = chalk.blue(`[${summary.environments.join(',')}]`);
+    const spike = summary.spike
+      ? chalk.red.bold(` ▲ spike (baseline ${summary.baseline}/window)`)
+      : '';
+
+    const line = `${summary.spike ? chalk.red.bold(count) : count} ${id} ${chalk.yellow(summary.exceptionType || '-')} ${envs} ${chalk.gray(`${first}–${last}`)} ${truncate(summary.title, 50)}${spike}`;
+    lines.push(line);
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,230 @@
+export type FormatRecord = Record<string, unknown>;
+
+export interface FormatContext {
+  // What the records are, e.g. 'issue', 'event', 'summary'
+  kind: string;
+  // Column order requested with --fields
+  fields?: string[];
+  // A single object rather than a list (e.g. one issue's details)
+  single?: boolean;
+  // Records are printed one call at a time as they arrive (tail, listen)
+  stream?: boolean;
+  // With stream, whether this call should include a header row
+  header?: boolean;
+  // Pre-rendered detail views (expanded events), one per record
+  details?: Array<{ summary: string; body: string }>;
+}
+
+/**
+ * Renders structured records. The `table` format is not a registry entry:
+ * each command renders its own table, every other format goes through here.
+ */
+export interface RecordFormatter {
+  format(records: FormatRecord[], context: FormatContext): string;
+  // Prints context.details, so callers only render them when it does
+  showsDetails?: boolean;
+}
+
+// Columns for tabular formats when --fields isn't given, so output is stable
+const DEFAULT_COLUMNS: Record<string, string[]> = {
+  issue: ['shortId', 'level', 'status', 'title', 'count', 'userCount', 'firstSeen', 'lastSeen'],
+  event: ['eventID', 'dateCreated', 'environment', 'title', 'message'],
+  release: ['version', 'dateReleased', 'dateCreated', 'newGroups', 'commitCount', 'deployCount'],
+};
+
+function columnsFor(records: FormatRecord[], context: FormatContext): string[] {
+  if (context.fields && context.fields.length > 0) return context.fields;
+  if (DEFAULT_COLUMNS[context.kind]) return DEFAULT_COLUMNS[context.kind];
+
+  const columns = new Set<string>();
+  for (const record of records) {
+    for (const key of Object.keys(record)) columns.add(key);
+  }
+  return [...columns];
+}
+
+function cellValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function stripAnsi(value: string): string {
+  return value.replace(/\x1b\[[0-9;]*m/g, '');
+}
+
+const jsonFormatter: RecordFormatter = {
+  format(records, context) {
+    if (context.stream) return records.map((r) => JSON.stringify(r)).join('\n');
+    if (context.single) return JSON.stringify(records[0] ?? null, null, 2);
+    return JSON.stringify(records, null, 2);
+  },
+};
+
+const ndjsonFormatter: RecordFormatter = {
+  format(records) {
+    return records.map((r) => JSON.stringify(r)).join('\n');
+  },
+};
+
+function delimitedFormatter(delimiter: string, escape: (value: string) => string): RecordFormatter {
+  return {
+    format(records, context) {
+      const columns = columnsFor(records, context);
+      const lines: string[] = [];
+
+      if (!context.stream || context.header) {
+        lines.push(columns.map(escape).join(delimiter));
+      }
+      for (const record of records) {
+        lines.push(columns.map((column) => escape(cellValue(record[column]))).join(delimiter));
+      }
+
+      return lines.join('\n');
+    },
+  };
+}
+
+const csvFormatter = delimitedFormatter(',', (value) =>
+  /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+);
+
+const tsvFormatter = delimitedFormatter('\t', (value) => value.replace(/[\t\n\r]+/g, ' '));
+
+function markdownCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+}
+
+const markdownFormatter: RecordFormatter = {
+  showsDetails: true,
+  format(records, context) {
+    const lines: string[] = [];
+
+    // One object: a Field/Value table reads better than a single wide row
+    if (context.single) {
+      const record = records[0] ?? {};
+      const keys = context.fields?.length ? context.fields : Object.keys(record);
+      lines.push('| Field | Value |', '| --- | --- |');
+      for (const key of keys) {
+        lines.push(`| ${markdownCell(key)} | ${markdownCell(cellValue(record[key]))} |`);
+      }
+      return lines.join('\n');
+    }
+
+    const columns = columnsFor(records, context);
+    if (!context.stream || context.header) {
+      lines.push(`| ${columns.map(markdownCell).join(' | ')} |`);
+      lines.push(`| ${columns.map(() => '---').join(' | ')} |`);
+    }
+    for (const record of records) {
+      lines.push(`| ${columns.map((c) => markdownCell(cellValue(record[c]))).join(' | ')} |`);
+    }
+
+    // Expanded events get a collapsible block with the full detail view
+    for (const detail of context.details || []) {
+      lines.push(
+        '',
+        '<details>',
+        `<summary>${markdownCell(detail.summary)}</summary>`,
+        '',
+        '```',
+        stripAnsi(detail.body),
+        '```',
+        '',
+        '</details>'
+      );
+    }
+
+    return lines.join('\n');
+  },
+};
+
+// YAML serialization (block style, strings quoted whenever plain style could be misread)
+const YAML_PLAIN = /^[A-Za-z_/.][\w ./@+-]*$/;
+// Words YAML reads as booleans, null, infinity or not-a-number, and
+// fractions like .5
+const YAML_RESERVED = /^(?:true|false|yes|no|y|n|on|off|null|~|\.inf|\.nan|\.\d.*)$/i;
+
+function yamlScalar(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  const str = String(value);
+  if (YAML_PLAIN.test(str) && !YAML_RESERVED.test(str) && !str.endsWith(' ')) return str;
+  return JSON.stringify(str);
+}
+
+function yamlKey(key: string): string {
+  return /^[A-Za-z_][\w.-]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+function isYamlInline(value: unknown): boolean {
+  if (value === null || typeof value !== 'object') return true;
+  return Array.isArray(value) ? value.length === 0 : Object.keys(value).length === 0;
+}
+
+function yamlInline(value: unknown): string {
+  if (Array.isArray(value)) return '[]';
+  if (value && typeof value === 'object') return '{}';
+  return yamlScalar(value);
+}
+
+function yamlBlock(value: unknown, indent: string): string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => {
+      if (isYamlInline(item)) return [`${indent}- ${yamlInline(item)}`];
+      const inner = yamlBlock(item, indent + '  ');
+      inner[0] = `${indent}- ${inner[0].slice(indent.length + 2)}`;
+      return inner;
+    });
+  }
+
+  return Object.entries(value as FormatRecord)
+    .filter(([, item]) => item !== undefined)
+    .flatMap(([key, item]) => {
+      if (isYamlInline(item)) return [`${indent}${yamlKey(key)}: ${yamlInline(item)}`];
+      return [`${indent}${yamlKey(key)}:`, ...yamlBlock(item, indent + '  ')];
+    });
+}
+
+export function toYaml(value: unknown): string {
+  if (isYamlInline(value)) return yamlInline(value);
+  return yamlBlock(value, '').join('\n');
+}
+
+const yamlFormatter: RecordFormatter = {
+  format(records, context) {
+    if (context.stream) return records.map((r) => `---\n${toYaml(r)}`).join('\n');
+    if (context.single) return toYaml(records[0] ?? null);
+    return toYaml(records);
+  },
+};
+
+const formatters = new Map<string, RecordFormatter>([
+  ['json', jsonFormatter],
+  ['ndjson', ndjsonFormatter],
+  ['csv', csvFormatter],
+  ['tsv', tsvFormatter],
+  ['markdown', markdownFormatter],
+  ['md', markdownFormatter],
+  ['yaml', yamlFormatter],
+]);
+
+// Add (or replace) an output format available to every command
+export function registerFormat(name: string, formatter: RecordFormatter): void {
+  if (name === 'table') {
+    throw new Error('The "table" format is built in and cannot be replaced');
+  }
+  formatters.set(name, formatter);
+}
+
+export function getFormatter(name: string): RecordFormatter {
+  const formatter = formatters.get(name);
+  if (!formatter) {
+    throw new Error(`Unknown format "${name}". Available: ${listFormats().join(', ')}`);
+  }
+  return formatter;
+}
+
+export function listFormats(): string[] {
+  return ['table', ...formatters.keys()];
+}
@@ -0,0 +1,72 @@
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import type { BlameInfo } from '../types.js';
+
+const execFileAsync = promisify(execFile);
+
+// Uncommitted lines blame to the all-zero commit
+const NOT_COMMITTED = /^0{40}$/;
+
+async function git(cwd: string, args: string[]): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: 16 * 1024 * 1024 });
+    return stdout;
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    throw new Error(stderr || (error as Error).message);
+  }
+}
+
+/**
+ * Top level of the git checkout containing `path`.
+ */
+export async function gitToplevel(path: string): Promise<string> {
+  try {
+    return (await git(path, ['rev-parse', '--show-toplevel'])).trim();
+  } catch {
+    throw new Error(`Not a git checkout: ${path}`);
+  }
+}
+
+/**
+ * Parse `git blame --porcelain` output for a single line.
+ */
+export function parseBlamePorcelain(output: string): BlameInfo | undefined {
+  const [header, ...rest] = output.split('\n');
+  const commit = header?.split(' ')[0];
+  if (!commit) return undefined;
+
+  const fields = new Map<string, string>();
+  for (const line of rest) {
+    if (line.startsWith('\t')) break;
+    const space = line.indexOf(' ');
+    if (space > 0) fields.set(line.slice(0, space), line.slice(space + 1));
+  }
+
+  const time = parseInt(fields.get('author-time') || '', 10);
+  return {
+    commit,
+    author: fields.get('author') || '',
+    email: fields.get('author-mail')?.replace(/^<|>$/g, '') || undefined,
+    date: Number.isNaN(time) ? undefined : new Date(time * 1000).toISOString(),
+    summary: fields.get('summary') || '',
+    committed: !NOT_COMMITTED.test(commit),
+  };
+}
+
+/**
+ * Blame one line of a file. Returns undefined when the line is past the end
+ * of the file or git has no history for it.
+ */
+export async function blameLine(
+  cwd: string,
+  file: string,
+  line: number
+): Promise<BlameInfo | undefined> {
+  try {
+    const output = await git(cwd, ['blame', '--porcelain', '-L', `${line},${line}`, '--', file]);
+    return parseBlamePorcelain(output);
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,193 @@
+import { spawn } from 'node:child_process';
+import { appendFileSync } from 'node:fs';
+import chalk from 'chalk';
+import type { SentryEvent, EventHookOptions } from '../types.js';
+import { redactObject } from './redact.js';
+
+const RETRY_BASE_MS = 1000;
+
+class HookError extends Error {
+  constructor(
+    message: string,
+    public retryable: boolean
+  ) {
+    super(message);
+    this.name = 'HookError';
+  }
+}
+
+function tagValue(event: SentryEvent, key: string): string | undefined {
+  return event.tags?.find((tag) => tag.key === key)?.value;
+}
+
+// Key fields exposed to --exec commands, alongside the event JSON on stdin
+function eventEnv(event: SentryEvent): Record<string, string> {
+  const fields: Record<string, string | undefined> = {
+    SLOG_EVENT_ID: event.eventID,
+    SLOG_ISSUE_ID: event.groupID,
+    SLOG_ISSUE_SHORT_ID: tagValue(event, 'issue'),
+    SLOG_PROJECT: tagValue(event, 'project'),
+    SLOG_LEVEL: tagValue(event, 'level'),
+    SLOG_ENVIRONMENT: event.environment,
+    SLOG_RELEASE: event.release?.version,
+    SLOG_TITLE: event.title || event.message,
+  };
+
+  const env: Record<string, string> = {};
+  for (const [key, value] of Object.entries(fields)) {
+    if (value !== undefined) env[key] = value;
+  }
+  return env;
+}
+
+function runExec(command: string, event: SentryEvent, payload: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    // Child stdout goes to our stderr so it never mixes with the event stream
+    const child = spawn(command, {
+      shell: true,
+      stdio: ['pipe', 2, 'inherit'],
+      env: { ...process.env, ...eventEnv(event) },
+    });
+
+    child.on('error', (error) => reject(new HookError(error.message, false)));
+    child.on('close', (code, signal) => {
+      if (code === 0) resolve();
+      else reject(new HookError(`command exited with ${signal ?? `code ${code}`}`, true));
+    });
+
+    // The command may exit without reading stdin
+    child.stdin?.on('error', () => {});
+    child.stdin?.end(payload);
+  });
+}
+
+async function runPost(url: string, payload: string): Promise<void> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: payload,
+    });
+  } catch (error) {
+    throw new HookError(error instanceof Error ? error.message : String(error), true);
+  }
+
+  if (!response.ok) {
+    // Client errors won't succeed on retry, except rate limiting
+    const retryable = response.status >= 500 || response.status === 429;
+    throw new HookError(`POST returned ${response.status} ${response.statusText}`, retryable);
+  }
+}
+
+/**
+ * Runs --exec commands and --post requests for tailed events with bounded
+ * concurrency and exponential-backoff retries. Failures that exhaust their
+ * retries are reported on stderr and appended to the failure log as JSON lines.
+ */
+export class EventHooks {
+  private options: EventHookOptions;
+  private active = 0;
+  private waiters: Array<() => void> = [];
+  private idle: Array<() => void> = [];
+
+  constructor(options: EventHookOptions) {
+    this.options = options;
+  }
+
+  get enabled(): boolean {
+    return Boolean(this.options.exec || this.options.post);
+  }
+
+  /**
+   * Start hooks for an event. Resolves once a concurrency slot is free,
+   * not when the hooks finish; use drain() to wait for completion.
+   */
+  async dispatch(event: SentryEvent): Promise<void> {
+    if (!this.enabled) return;
+
+    while (this.active >= this.options.concurrency) {
+      await new Promise<void>((resolve) => this.waiters.push(resolve));
+    }
+
+    this.active++;
+    void this.run(event).finally(() => {
+      this.active--;
+      this.waiters.shift()?.();
+      if (this.active === 0) {
+        for (const resolve of this.idle.splice(0)) resolve();
+      }
+    });
+  }
+
+  // Wait for every dispatched hook to finish (or give up)
+  async drain(): Promise<void> {
+    if (this.active === 0) return;
+    await new Promise<void>((resolve) => this.idle.push(resolve));
+  }
+
+  private async run(event: SentryEvent): Promise<void> {
+    const data = this.options.redact ? redactObject(event) : event;
+    const payload = JSON.stringify(data);
+
+    const hooks: Array<[string, () => Promise<void>]> = [];
+    if (this.options.exec) {
+      const command = this.options.exec;
+      hooks.push(['exec', () => runExec(command, data, payload)]);
+    }
+    if (this.options.post) {
+      const url = this.options.post;
+      hooks.push(['post', () => runPost(url, payload)]);
+    }
+
+    await Promise.all(hooks.map(([target, hook]) => this.withRetry(target, event, hook)));
+  }
+
+  private async withRetry(
+    target: string,
+    event: SentryEvent,
+    hook: () => Promise<void>
+  ): Promise<void> {
+    let attempts = 0;
+
+    for (;;) {
+      attempts++;
+      try {
+        await hook();
+        return;
+      } catch (error) {
+        const retryable = !(error instanceof HookError) || error.retryable;
+        if (retryable && attempts <= this.options.retries) {
+          await new Promise((resolve) => setTimeout(resolve, RETRY_BASE_MS * 2 ** (attempts - 1)));
+          continue;
+        }
+
+        this.recordFailure(target, event, attempts, error);
+        return;
+      }
+    }
+  }
+
+  private recordFailure(target: string, event: SentryEvent, attempts: number, error: unknown): void {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(chalk.red(`${target} failed for event ${event.eventID} after ${attempts} attempt(s): ${message}`));
+
+    if (!this.options.failureLog) return;
+
+    const entry = {
+      time: new Date().toISOString(),
+      target,
+      eventId: event.eventID,
+      issueId: event.groupID,
+      attempts,
+      error: message,
+    };
+
+    try {
+      appendFileSync(this.options.failureLog, JSON.stringify(entry) + '\n');
+    } catch (logError) {
+      const reason = logError instanceof Error ? logError.message : String(logError);
+      console.error(chalk.red(`Could not write failure log: ${reason}`));
+    }
+  }
+}
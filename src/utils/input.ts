@@ -0,0 +1,55 @@
+// Read all of stdin as a string
+export async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+/**
+ * Extract issue IDs from piped input.
+ * Accepts JSON output from `slog issues --format json` (an array of issues or
+ * a single issue), a JSON array of ID strings, or whitespace/comma separated IDs.
+ */
+export function parseIssueIds(input: string): string[] {
+  const trimmed = input.trim();
+  if (!trimmed) return [];
+
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    try {
+      const parsed: unknown = JSON.parse(trimmed);
+      const items = Array.isArray(parsed) ? parsed : [parsed];
+      return items.map(issueIdFromValue).filter((id): id is string => Boolean(id));
+    } catch {
+      // Not JSON, fall through to plain text parsing
+    }
+  }
+
+  return trimmed.split(/[\s,]+/).filter(Boolean);
+}
+
+function issueIdFromValue(value: unknown): string | undefined {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') return value.toString();
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const id = record.id ?? record.shortId;
+    if (typeof id === 'string' || typeof id === 'number') return id.toString();
+  }
+  return undefined;
+}
+
+/**
+ * Resolve issue IDs from command arguments, falling back to stdin
+ * when no IDs (or a lone `-`) were given and input is piped.
+ */
+export async function collectIssueIds(args: string[]): Promise<string[]> {
+  const explicit = args.filter((arg) => arg !== '-');
+  const wantsStdin = args.includes('-') || (explicit.length === 0 && !process.stdin.isTTY);
+
+  if (!wantsStdin) return explicit;
+
+  const piped = parseIssueIds(await readStdin());
+  return [...explicit, ...piped];
+}
@@ -0,0 +1,567 @@
+import chalk from 'chalk';
+import type {
+  QueryNode,
+  QueryFilter,
+  QueryOperator,
+  QueryFlags,
+} from '../types.js';
+
+// Sentry search syntax, checked locally
+//
+// Queries are tokenized into filters (key:value, !key:value, key:>10,
+// key:[a, b]), free text, AND/OR and parenthesized groups. Known keys get
+// their values checked; unknown keys are fine (they're tag searches) unless
+// they look like a typo of a known one. Sentry's issue search rejects
+// AND/OR, so those are only accepted for event (Discover) queries.
+
+export type QueryDataset = 'issues' | 'events';
+
+export interface QueryParseOptions {
+  dataset?: QueryDataset;
+}
+
+type ValueKind = 'status' | 'level' | 'number' | 'date' | 'boolean' | 'string';
+
+const STATUS_VALUES = [
+  'unresolved',
+  'resolved',
+  'ignored',
+  'archived',
+  'escalating',
+  'regressed',
+  'new',
+  'ongoing',
+];
+
+const IS_VALUES = [
+  ...STATUS_VALUES,
+  'assigned',
+  'unassigned',
+  'for_review',
+  'linked',
+  'unlinked',
+];
+
+const LEVEL_VALUES = ['fatal', 'error', 'warning', 'info', 'debug', 'sample'];
+
+const KNOWN_KEYS: Record<string, ValueKind> = {
+  is: 'status',
+  level: 'level',
+  times_seen: 'number',
+  'user.count': 'number',
+  age: 'date',
+  firstSeen: 'date',
+  lastSeen: 'date',
+  first_seen: 'date',
+  last_seen: 'date',
+  timestamp: 'date',
+  'event.timestamp': 'date',
+  'error.handled': 'boolean',
+  'error.unhandled': 'boolean',
+  assigned: 'string',
+  assigned_or_suggested: 'string',
+  bookmarks: 'string',
+  subscribed: 'string',
+  has: 'string',
+  release: 'string',
+  'release.version': 'string',
+  firstRelease: 'string',
+  environment: 'string',
+  project: 'string',
+  message: 'string',
+  title: 'string',
+  culprit: 'string',
+  issue: 'string',
+  'issue.id': 'string',
+  'issue.category': 'string',
+  'issue.type': 'string',
+  'error.type': 'string',
+  'error.value': 'string',
+  'error.mechanism': 'string',
+  'event.type': 'string',
+  url: 'string',
+  transaction: 'string',
+  platform: 'string',
+  dist: 'string',
+  server_name: 'string',
+  trace: 'string',
+  id: 'string',
+  'user.id': 'string',
+  'user.email': 'string',
+  'user.username': 'string',
+  'user.ip': 'string',
+  'sdk.name': 'string',
+  // Tags the SDKs set on every event
+  os: 'string',
+  'os.name': 'string',
+  browser: 'string',
+  'browser.name': 'string',
+  runtime: 'string',
+  'runtime.name': 'string',
+  device: 'string',
+  'device.family': 'string',
+  user: 'string',
+  handled: 'string',
+  mechanism: 'string',
+  logger: 'string',
+};
+
+const FLAG_KEYS: Record<Exclude<keyof QueryFlags, 'tag'>, string> = {
+  level: 'level',
+  status: 'is',
+  assigned: 'assigned',
+  release: 'release',
+  env: 'environment',
+  project: 'project',
+};
+
+const KEY_PATTERN = /(tags\[[^\]\s]+\]|[A-Za-z_][\w.-]*):/y;
+const BOOLEAN_PATTERN = /(AND|OR)(?=[\s()]|$)/y;
+
+/**
+ * A query that Sentry would reject, with the span of the offending token.
+ * The message quotes the query with a caret under that span.
+ */
+export class QueryError extends Error {
+  constructor(
+    public reason: string,
+    public query: string,
+    public start: number,
+    public end: number
+  ) {
+    const width = Math.max(1, end - start);
+    super(`Invalid query: ${reason}\n  ${query}\n  ${' '.repeat(start)}${'^'.repeat(width)}`);
+    this.name = 'QueryError';
+  }
+}
+
+interface Cursor {
+  query: string;
+  pos: number;
+}
+
+function skipSpaces(cursor: Cursor): void {
+  while (cursor.pos < cursor.query.length && /\s/.test(cursor.query[cursor.pos])) cursor.pos++;
+}
+
+// Reads "..." starting at the opening quote; \" escapes a quote
+function readQuoted(cursor: Cursor): string {
+  const { query } = cursor;
+  const open = cursor.pos;
+  let value = '';
+
+  for (let i = open + 1; i < query.length; i++) {
+    if (query[i] === '\\' && i + 1 < query.length) {
+      value += query[++i];
+    } else if (query[i] === '"') {
+      cursor.pos = i + 1;
+      return value;
+    } else {
+      value += query[i];
+    }
+  }
+
+  throw new QueryError('unterminated quote', query, open, query.length);
+}
+
+function readBare(cursor: Cursor, depth: number, stop: RegExp): string {
+  const start = cursor.pos;
+  while (
+    cursor.pos < cursor.query.length &&
+    !stop.test(cursor.query[cursor.pos]) &&
+    !(depth > 0 && cursor.query[cursor.pos] === ')')
+  ) {
+    cursor.pos++;
+  }
+  return cursor.query.slice(start, cursor.pos);
+}
+
+// [a, "b c", d]
+function readList(cursor: Cursor): string[] {
+  const { query } = cursor;
+  const open = cursor.pos;
+  const values: string[] = [];
+  cursor.pos++;
+
+  for (;;) {
+    skipSpaces(cursor);
+    if (cursor.pos >= query.length) {
+      throw new QueryError('unterminated list, missing "]"', query, open, query.length);
+    }
+
+    const itemStart = cursor.pos;
+    const value = query[cursor.pos] === '"' ? readQuoted(cursor) : readBare(cursor, 0, /[\s,\]]/).trim();
+    if (!value) throw new QueryError('empty value in list', query, itemStart, itemStart + 1);
+    values.push(value);
+
+    skipSpaces(cursor);
+    if (query[cursor.pos] === ']') {
+      cursor.pos++;
+      return values;
+    }
+    if (query[cursor.pos] !== ',') {
+      throw new QueryError('expected "," or "]" in list', query, cursor.pos, cursor.pos + 1);
+    }
+    cursor.pos++;
+  }
+}
+
+function readFilter(cursor: Cursor, depth: number): QueryFilter | null {
+  const { query } = cursor;
+  const start = cursor.pos;
+  const negated = query[start] === '!';
+
+  KEY_PATTERN.lastIndex = negated ? start + 1 : start;
+  const match = KEY_PATTERN.exec(query);
+  if (!match) return null;
+
+  cursor.pos = KEY_PATTERN.lastIndex;
+  const operator = (query.slice(cursor.pos).match(/^(>=|<=|>|<)/)?.[1] || '') as QueryOperator;
+  cursor.pos += operator.length;
+
+  let values: string[];
+  let list = false;
+  if (query[cursor.pos] === '"') {
+    values = [readQuoted(cursor)];
+  } else if (query[cursor.pos] === '[') {
+    values = readList(cursor);
+    list = true;
+  } else {
+    values = [readBare(cursor, depth, /\s/)];
+  }
+
+  if (!list && values[0] === '' && query[cursor.pos - 1] !== '"') {
+    throw new QueryError(`missing value after "${match[1]}:"`, query, start, cursor.pos);
+  }
+
+  return { type: 'filter', key: match[1], negated, operator, values, list, start, end: cursor.pos };
+}
+
+function parseNodes(cursor: Cursor, depth: number): QueryNode[] {
+  const { query } = cursor;
+  const nodes: QueryNode[] = [];
+
+  for (;;) {
+    skipSpaces(cursor);
+    if (cursor.pos >= query.length) return nodes;
+
+    const start = cursor.pos;
+    const char = query[start];
+
+    if (char === ')') {
+      if (depth === 0) throw new QueryError('unmatched ")"', query, start, start + 1);
+      return nodes;
+    }
+
+    if (char === '(') {
+      cursor.pos++;
+      const children = parseNodes(cursor, depth + 1);
+      if (query[cursor.pos] !== ')') throw new QueryError('unclosed "("', query, start, start + 1);
+      cursor.pos++;
+      nodes.push({ type: 'group', children, start, end: cursor.pos });
+      continue;
+    }
+
+    BOOLEAN_PATTERN.lastIndex = start;
+    const boolean = BOOLEAN_PATTERN.exec(query);
+    if (boolean) {
+      cursor.pos = BOOLEAN_PATTERN.lastIndex;
+      nodes.push({ type: 'boolean', operator: boolean[1] as 'AND' | 'OR', start, end: cursor.pos });
+      continue;
+    }
+
+    const filter = readFilter(cursor, depth);
+    if (filter) {
+      nodes.push(filter);
+      continue;
+    }
+
+    const quoted = char === '"';
+    const value = quoted ? readQuoted(cursor) : readBare(cursor, depth, /[\s(]/);
+    nodes.push({ type: 'text', value, quoted, start, end: cursor.pos });
+  }
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
+
+// A known key the given one is probably a typo of. Short keys are left
+// alone: one letter off "is" or "os" is as likely to be a real tag.
+function suggestKey(key: string): string | undefined {
+  if (key.length <= 3) return undefined;
+  const lower = key.toLowerCase();
+  const limit = key.length > 5 ? 2 : 1;
+  let best: string | undefined;
+  let bestDistance = limit + 1;
+
+  for (const known of Object.keys(KNOWN_KEYS)) {
+    const distance = editDistance(lower, known.toLowerCase());
+    if (distance < bestDistance) {
+      best = known;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function isDateValue(value: string): boolean {
+  return (
+    /^[-+]?\d+[smhdw]$/.test(value) ||
+    /^\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/.test(value)
+  );
+}
+
+function expectedValues(kind: ValueKind): string {
+  switch (kind) {
+    case 'status':
+      return IS_VALUES.join(', ');
+    case 'level':
+      return LEVEL_VALUES.join(', ');
+    case 'number':
+      return 'a number, e.g. >100';
+    case 'date':
+      return 'a relative time like -24h or a date like 2024-05-01';
+    case 'boolean':
+      return 'true or false';
+    default:
+      return 'any value';
+  }
+}
+
+// Why a filter is invalid, or undefined when it's fine
+function filterProblem(filter: QueryFilter): string | undefined {
+  const kind = KNOWN_KEYS[filter.key];
+
+  if (!kind) {
+    if (filter.key.startsWith('tags[')) return undefined;
+    const suggestion = suggestKey(filter.key);
+    if (suggestion && suggestion !== filter.key) {
+      return `unknown key "${filter.key}", did you mean "${suggestion}"? (write tags[${filter.key}]:... for a custom tag)`;
+    }
+    return undefined;
+  }
+
+  if (filter.operator && kind !== 'number' && kind !== 'date') {
+    return `"${filter.key}" doesn't support the ${filter.operator} operator`;
+  }
+  if (filter.operator && filter.list) {
+    return `the ${filter.operator} operator can't be used with a list`;
+  }
+
+  for (const value of filter.values) {
+    const valid =
+      kind === 'status' ? IS_VALUES.includes(value) :
+      kind === 'level' ? LEVEL_VALUES.includes(value) :
+      kind === 'number' ? /^\d+(?:\.\d+)?[kmb]?$/i.test(value) :
+      kind === 'date' ? isDateValue(value) :
+      kind === 'boolean' ? /^(?:true|false|1|0)$/.test(value) :
+      true;
+    if (!valid) {
+      return `invalid value "${value}" for "${filter.key}" (expected ${expectedValues(kind)})`;
+    }
+  }
+
+  return undefined;
+}
+
+function validateNodes(nodes: QueryNode[], query: string, options: QueryParseOptions): void {
+  nodes.forEach((node, i) => {
+    if (node.type === 'boolean') {
+      if (options.dataset === 'issues') {
+        throw new QueryError(`issue search doesn't support ${node.operator}`, query, node.start, node.end);
+      }
+      const prev = nodes[i - 1];
+      const next = nodes[i + 1];
+      if (!prev || !next || prev.type === 'boolean' || next.type === 'boolean') {
+        throw new QueryError(`${node.operator} needs a term on both sides`, query, node.start, node.end);
+      }
+    } else if (node.type === 'group') {
+      if (options.dataset === 'issues') {
+        throw new QueryError('issue search doesn\'t support parentheses', query, node.start, node.end);
+      }
+      if (node.children.length === 0) {
+        throw new QueryError('empty parentheses', query, node.start, node.end);
+      }
+      validateNodes(node.children, query, options);
+    } else if (node.type === 'filter') {
+      const problem = filterProblem(node);
+      if (problem) throw new QueryError(problem, query, node.start, node.end);
+    }
+  });
+}
+
+/**
+ * Parse and validate a Sentry search query. Throws a QueryError pointing at
+ * the first problem.
+ */
+export function parseQuery(query: string, options: QueryParseOptions = {}): QueryNode[] {
+  const cursor: Cursor = { query, pos: 0 };
+  const nodes = parseNodes(cursor, 0);
+  validateNodes(nodes, query, options);
+  return nodes;
+}
+
+export function formatQueryValue(value: string): string {
+  return /^[^\s"(),[\]]+$/.test(value) ? value : `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
+
+export function formatQueryFilter(filter: Pick<QueryFilter, 'key' | 'negated' | 'operator' | 'values' | 'list'>): string {
+  const value = filter.list
+    ? `[${filter.values.map(formatQueryValue).join(', ')}]`
+    : formatQueryValue(filter.values[0]);
+  return `${filter.negated ? '!' : ''}${filter.key}:${filter.operator}${value}`;
+}
+
+function splitList(value: string): string[] {
+  return value.split(',').map((v) => v.trim()).filter(Boolean);
+}
+
+// Filters the structured flags stand for, labelled with the flag they came from
+function flagFilters(flags: QueryFlags): Array<{ flag: string; filter: QueryFilter }> {
+  const result: Array<{ flag: string; filter: QueryFilter }> = [];
+  const add = (flag: string, key: string, values: string[]) => {
+    result.push({
+      flag,
+      filter: {
+        type: 'filter',
+        key,
+        negated: false,
+        operator: '',
+        values,
+        list: values.length > 1,
+        start: 0,
+        end: 0,
+      },
+    });
+  };
+
+  for (const [name, key] of Object.entries(FLAG_KEYS) as Array<[keyof typeof FLAG_KEYS, string]>) {
+    const raw = flags[name];
+    if (raw === undefined) continue;
+    const values = splitList(raw);
+    if (values.length === 0) throw new Error(`--${name} needs a value`);
+    if (name === 'status') {
+      const invalid = values.find((v) => !STATUS_VALUES.includes(v));
+      if (invalid) throw new Error(`--status: invalid status "${invalid}" (expected ${STATUS_VALUES.join(', ')})`);
+    }
+    add(`--${name}`, key, values);
+  }
+
+  for (const pair of flags.tag || []) {
+    const eq = pair.indexOf('=');
+    const key = pair.slice(0, eq).trim();
+    const value = pair.slice(eq + 1).trim();
+    if (eq <= 0 || !key || !value) {
+      throw new Error(`--tag: expected key=value, got "${pair}"`);
+    }
+    if (!/^[\w.-]+$/.test(key)) {
+      throw new Error(`--tag: invalid tag key "${key}"`);
+    }
+    // A custom tag that looks like a typo of a known key is spelled out as tags[...]
+    const bare = /^[A-Za-z_]/.test(key) && (KNOWN_KEYS[key] || !suggestKey(key));
+    add('--tag', bare ? key : `tags[${key}]`, [value]);
+  }
+
+  for (const { flag, filter } of result) {
+    const problem = filterProblem(filter);
+    if (problem) throw new Error(`${flag}: ${problem}`);
+  }
+
+  return result;
+}
+
+// Whether an existing filter constrains the same thing as one from a flag.
+// `is:` covers both status and assignment, so only statuses count for --status.
+function sameConstraint(existing: QueryFilter, added: QueryFilter): boolean {
+  if (existing.negated || existing.key !== added.key) return false;
+  if (added.key !== 'is') return true;
+  return existing.values.every((v) => STATUS_VALUES.includes(v));
+}
+
+function sameValues(a: string[], b: string[]): boolean {
+  return a.length === b.length && [...a].sort().join('\0') === [...b].sort().join('\0');
+}
+
+/**
+ * Validate the user's query and append the structured flags to it. A flag
+ * that repeats a filter already in the query is dropped; one that
+ * contradicts it is an error. The query text itself is kept as written.
+ */
+export function buildQuery(
+  query: string | undefined,
+  flags: QueryFlags,
+  options: QueryParseOptions = {}
+): string {
+  const base = (query || '').trim();
+  const nodes = parseQuery(base, options);
+  const topLevel = nodes.filter((n): n is QueryFilter => n.type === 'filter');
+  const additions: string[] = [];
+
+  for (const { flag, filter } of flagFilters(flags)) {
+    const existing = topLevel.find((n) => sameConstraint(n, filter));
+    if (!existing) {
+      additions.push(formatQueryFilter(filter));
+    } else if (!sameValues(existing.values, filter.values)) {
+      throw new QueryError(
+        `${flag} ${filter.values.join(',')} conflicts with the query`,
+        base,
+        existing.start,
+        existing.end
+      );
+    }
+  }
+
+  if (additions.length === 0) return base;
+
+  // AND binds tighter than OR, so a query with a top-level OR is wrapped
+  const hasOr = nodes.some((n) => n.type === 'boolean' && n.operator === 'OR');
+  const head = hasOr ? `(${base})` : base;
+  return [head, ...additions].filter(Boolean).join(' ');
+}
+
+function describeFilter(filter: QueryFilter): string {
+  const values = filter.values.map((v) => formatQueryValue(v));
+  const relation =
+    filter.operator ||
+    (filter.list ? 'in' : KNOWN_KEYS[filter.key] === 'date' && /^[-+]/.test(filter.values[0]) ? 'within' : '=');
+  const key = filter.negated ? `not ${filter.key}` : filter.key;
+  return `${chalk.cyan(key.padEnd(16))} ${relation.padEnd(6)} ${values.join(', ')}`;
+}
+
+function describeNodes(nodes: QueryNode[], indent: string): string[] {
+  return nodes.flatMap((node) => {
+    switch (node.type) {
+      case 'filter':
+        return [indent + describeFilter(node)];
+      case 'text':
+        return [`${indent}${chalk.cyan('text'.padEnd(16))} ${'~'.padEnd(6)} ${formatQueryValue(node.value)}`];
+      case 'boolean':
+        return [indent + chalk.yellow(node.operator)];
+      case 'group':
+        return [indent + '(', ...describeNodes(node.children, indent + '  '), indent + ')'];
+    }
+  });
+}
+
+/**
+ * The final query and one line per term, for --explain.
+ */
+export function explainQuery(query: string, options: QueryParseOptions = {}): string {
+  const nodes = parseQuery(query, options);
+  const lines = [`${chalk.bold('Query:')} ${query || chalk.gray('(empty)')}`];
+  if (nodes.length > 0) {
+    lines.push('', ...describeNodes(nodes, '  '));
+  }
+  return lines.join('\n');
+}
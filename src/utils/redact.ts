@@ -68,6 +68,19 @@ export function redactString(value: string): string {
   return result;
 }
 
+function isSensitiveKey(lowerKey: string): boolean {
+  return (
+    SENSITIVE_HEADERS.has(lowerKey) ||
+    lowerKey.includes('password') ||
+    lowerKey.includes('secret') ||
+    lowerKey.includes('token') ||
+    lowerKey.includes('api_key') ||
+    lowerKey.includes('apikey') ||
+    lowerKey.includes('auth') ||
+    lowerKey.includes('credential')
+  );
+}
+
 export function redactObject<T>(obj: T): T {
   if (obj === null || obj === undefined) {
     return obj;
@@ -88,16 +101,7 @@ export function redactObject<T>(obj: T): T {
       const lowerKey = key.toLowerCase();
 
       // Check if this is a sensitive header or field
-      if (
-        SENSITIVE_HEADERS.has(lowerKey) ||
-        lowerKey.includes('password') ||
-        lowerKey.includes('secret') ||
-        lowerKey.includes('token') ||
-        lowerKey.includes('api_key') ||
-        lowerKey.includes('apikey') ||
-        lowerKey.includes('auth') ||
-        lowerKey.includes('credential')
-      ) {
+      if (isSensitiveKey(lowerKey)) {
         result[key] = REDACTED;
       } else if (typeof value === 'string') {
         result[key] = redactString(value);
@@ -127,6 +131,124 @@ export function redactHeaders(
   });
 }
 
+// Query string pairs: sensitive parameter names are blanked, values scrubbed
+export function redactQuery(
+  query: Array<[string, string]> | undefined
+): Array<[string, string]> | undefined {
+  if (!query) return query;
+
+  return query.map(([key, value]) =>
+    isSensitiveKey(key.toLowerCase()) ? [key, REDACTED] : [key, redactString(value)]
+  );
+}
+
+// Cookie values are session material, so none of them are shown
+export function redactCookies(
+  cookies: Array<[string, string]> | undefined
+): Array<[string, string]> | undefined {
+  if (!cookies) return cookies;
+  return cookies.map(([key]) => [key, REDACTED]);
+}
+
+// Field projection for --fields
+//
+//   id,title              top-level keys
+//   project.slug          dot paths into nested objects
+//   entries[*].type       every element of an array ([0] picks one)
+//   tags.release          value of a key/value pair in tags-style arrays
+//   proj=project.slug     rename the output key
+//
+// Output keys are the alias, or the path as written.
+
+type PathSegment =
+  | { type: 'key'; key: string }
+  | { type: 'index'; index: number }
+  | { type: 'wildcard' };
+
+export interface FieldProjection {
+  name: string;
+  path: PathSegment[];
+}
+
+export function parseFieldPath(path: string): PathSegment[] {
+  const segments: PathSegment[] = [];
+
+  for (const part of path.split('.')) {
+    const match = part.match(/^([^[\]]*)((?:\[(?:\*|\d+)\])*)$/);
+    if (!match) {
+      throw new Error(`Invalid field path "${path}" near "${part}"`);
+    }
+
+    const [, key, brackets] = match;
+    if (key) segments.push({ type: 'key', key });
+
+    for (const bracket of brackets.match(/\[(\*|\d+)\]/g) || []) {
+      const inner = bracket.slice(1, -1);
+      segments.push(inner === '*' ? { type: 'wildcard' } : { type: 'index', index: parseInt(inner, 10) });
+    }
+  }
+
+  if (segments.length === 0) {
+    throw new Error(`Invalid field path "${path}"`);
+  }
+
+  return segments;
+}
+
+export function parseFieldSpec(spec: string): FieldProjection {
+  const eq = spec.indexOf('=');
+  const name = (eq === -1 ? spec : spec.slice(0, eq)).trim();
+  const path = (eq === -1 ? spec : spec.slice(eq + 1)).trim();
+  return { name, path: parseFieldPath(path) };
+}
+
+// Look up a key in arrays of {key, value} objects or [key, value] tuples (tags, headers)
+function lookupPair(items: unknown[], key: string): unknown {
+  for (const item of items) {
+    if (Array.isArray(item) && item.length === 2 && item[0] === key) return item[1];
+    if (item && typeof item === 'object' && (item as Record<string, unknown>).key === key) {
+      return (item as Record<string, unknown>).value;
+    }
+  }
+  return undefined;
+}
+
+function resolveSegments(value: unknown, segments: PathSegment[]): unknown {
+  if (segments.length === 0 || value === undefined || value === null) return value;
+
+  const [segment, ...rest] = segments;
+
+  if (segment.type === 'wildcard') {
+    if (!Array.isArray(value)) return undefined;
+    // Nested wildcards produce one flat list rather than arrays of arrays
+    const flatten = rest.some((s) => s.type === 'wildcard');
+    return value.flatMap((item) => {
+      const resolved = resolveSegments(item, rest);
+      if (resolved === undefined) return [];
+      return flatten && Array.isArray(resolved) ? resolved : [resolved];
+    });
+  }
+
+  if (segment.type === 'index') {
+    return Array.isArray(value) ? resolveSegments(value[segment.index], rest) : undefined;
+  }
+
+  if (Array.isArray(value)) {
+    if (/^\d+$/.test(segment.key)) return resolveSegments(value[parseInt(segment.key, 10)], rest);
+    return resolveSegments(lookupPair(value, segment.key), rest);
+  }
+
+  if (typeof value === 'object') {
+    return resolveSegments((value as Record<string, unknown>)[segment.key], rest);
+  }
+
+  return undefined;
+}
+
+export function getFieldValue(obj: unknown, path: string): unknown {
+  return resolveSegments(obj, parseFieldPath(path));
+}
+
 export function filterFields<T extends object>(
   obj: T,
   allowedFields: string[]
@@ -149,3 +271,22 @@ export function filterArrayFields<T extends object>(
 ): Array<Partial<T>> {
   return arr.map((item) => filterFields(item, allowedFields));
 }
+
+/**
+ * Project a record with parsed --fields specs (paths, wildcards, renames).
+ * filterFields keeps plain top-level keys only. Fields that resolve to
+ * nothing are left out, like missing keys.
+ */
+export function projectFields(
+  obj: object,
+  projections: FieldProjection[]
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  for (const { name, path } of projections) {
+    const value = resolveSegments(obj, path);
+    if (value !== undefined) result[name] = value;
+  }
+
+  return result;
+}
@@ -0,0 +1,37 @@
+import type { SentryClient } from '../api/client.js';
+import type { ResolvedIssue, SentryEvent } from '../types.js';
+
+// Issue and event references given on the command line
+
+// Bare event IDs are 32 hex characters, optionally dashed like a UUID
+const EVENT_ID = /^[0-9a-f]{32}$/i;
+
+// On stderr, so it doesn't end up in piped output
+export function warnOrgMismatch(resolved: ResolvedIssue): void {
+  if (!resolved.orgMismatch) return;
+  const { url, configured } = resolved.orgMismatch;
+  console.warn(`Warning: URL belongs to org "${url}" but SENTRY_ORG is "${configured}"; using "${configured}".`);
+}
+
+/**
+ * Fetch the event a stack-oriented command should look at: an event ID
+ * anywhere in the org, or an issue reference (its latest event unless the
+ * URL names one).
+ */
+export async function fetchRefEvent(
+  client: SentryClient,
+  ref: string,
+  project?: string
+): Promise<{ event: SentryEvent; label: string }> {
+  if (EVENT_ID.test(ref.replace(/-/g, ''))) {
+    const found = await client.findEvent(ref.replace(/-/g, ''), { project });
+    return { event: found.event, label: `issue:${found.issueId} event:${found.eventId}` };
+  }
+
+  const resolved = await client.resolveIssue(ref);
+  warnOrgMismatch(resolved);
+  const event = resolved.eventId && resolved.eventId !== 'latest'
+    ? await client.getEvent(resolved.issueId, resolved.eventId)
+    : await client.getLatestEvent(resolved.issueId);
+  return { event, label: `${resolved.issue.shortId} event:${event.eventID}` };
+}
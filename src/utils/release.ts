@@ -0,0 +1,110 @@
+import type { SentryIssue, SentryRelease, ReleaseIssueComparison } from '../types.js';
+
+// Release comparison for `slog release`
+//
+// Each release is compared over the time it was the live one: the current
+// release from its release date until the next release replaced it (or
+// now), the previous one from its release date until the current one
+// replaced it. Counts are turned into
+// events per hour so a release that shipped an hour ago can be compared
+// with one that ran for days.
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Below this, rates are too noisy to compare (and divide by almost nothing)
+const MIN_WINDOW_MS = 5 * 60 * 1000;
+
+/**
+ * When the release went out: its release date, or when it was created.
+ */
+export function releaseStart(release: SentryRelease): number {
+  return Date.parse(release.dateReleased || release.dateCreated);
+}
+
+/**
+ * The release that went out most recently before this one.
+ */
+export function findPreviousRelease(
+  releases: SentryRelease[],
+  release: SentryRelease
+): SentryRelease | undefined {
+  const start = releaseStart(release);
+  return releases
+    .filter((r) => r.version !== release.version && releaseStart(r) < start)
+    .sort((a, b) => releaseStart(b) - releaseStart(a))[0];
+}
+
+/**
+ * The release that replaced this one, if any has gone out since.
+ */
+export function findNextRelease(
+  releases: SentryRelease[],
+  release: SentryRelease
+): SentryRelease | undefined {
+  const start = releaseStart(release);
+  return releases
+    .filter((r) => r.version !== release.version && releaseStart(r) > start)
+    .sort((a, b) => releaseStart(a) - releaseStart(b))[0];
+}
+
+export interface ReleaseWindow {
+  start: number;
+  end: number;
+}
+
+/**
+ * Time each release was live, as described above. The previous window is
+ * undefined without a previous release.
+ */
+export function releaseWindows(
+  release: SentryRelease,
+  previous: SentryRelease | undefined,
+  next?: SentryRelease,
+  now: number = Date.now()
+): { current: ReleaseWindow; previous?: ReleaseWindow } {
+  const start = releaseStart(release);
+  const end = next ? releaseStart(next) : now;
+  return {
+    current: { start, end: Math.max(end, start + MIN_WINDOW_MS) },
+    previous: previous ? { start: releaseStart(previous), end: start } : undefined,
+  };
+}
+
+function perHour(count: number, window: ReleaseWindow): number {
+  return count / (Math.max(window.end - window.start, MIN_WINDOW_MS) / HOUR_MS);
+}
+
+/**
+ * Compare each issue's event rate in this release with the previous one.
+ * `previousCounts` is undefined when there is no previous release.
+ */
+export function compareReleaseIssues(
+  issues: SentryIssue[],
+  counts: Map<string, number>,
+  previousCounts: Map<string, number> | undefined,
+  windows: { current: ReleaseWindow; previous?: ReleaseWindow }
+): ReleaseIssueComparison[] {
+  return issues.map((issue) => {
+    const count = counts.get(issue.id) ?? 0;
+    const rate = perHour(count, windows.current);
+
+    let previousCount: number | null = null;
+    let previousRate: number | null = null;
+    if (previousCounts && windows.previous) {
+      previousCount = previousCounts.get(issue.id) ?? 0;
+      previousRate = perHour(previousCount, windows.previous);
+    }
+
+    return {
+      issueId: issue.id,
+      shortId: issue.shortId,
+      title: issue.title,
+      level: issue.level,
+      count,
+      previousCount,
+      perHour: rate,
+      previousPerHour: previousRate,
+      change: previousRate ? rate / previousRate - 1 : null,
+    };
+  });
+}
@@ -0,0 +1,171 @@
+import { existsSync, readFileSync, statSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { isAbsolute, join, relative, resolve, sep } from 'node:path';
+import { getRepoConfig } from '../config.js';
+import type { NormalizedFrame, NormalizedStack, LocalLocation, PathMapping } from '../types.js';
+
+// Mapping stack frame paths onto a local checkout
+//
+// Frame paths are cleaned up before lookup: user --path-map rules first,
+// then URL schemes (webpack:///, app:///, file://), ~/, /app/ and ./
+// prefixes and query strings. If the cleaned path isn't in the repo, its
+// leading directories are dropped one at a time, so deploy roots like
+// /srv/releases/42/src/app.py still find src/app.py. The file's own
+// directory is always kept: a bare index.js or __init__.py at the repo
+// root would too often be the wrong file.
+
+const STRIP_PREFIXES = [/^[a-z][\w+.-]*:\/\/\/?/i, /^~\//, /^\/app\//, /^(?:\.\/)+/];
+
+export interface RepoMapping {
+  root: string;
+  mappings: PathMapping[];
+}
+
+function expandHome(path: string): string {
+  return path === '~' || path.startsWith('~/') ? join(homedir(), path.slice(1)) : path;
+}
+
+/**
+ * Parse "from=to" rules separated by commas. An empty `to` strips the prefix.
+ */
+export function parsePathMap(spec: string | undefined): PathMapping[] {
+  if (!spec) return [];
+
+  return spec
+    .split(',')
+    .map((rule) => rule.trim())
+    .filter(Boolean)
+    .map((rule) => {
+      const eq = rule.indexOf('=');
+      if (eq <= 0) {
+        throw new Error(`Invalid path mapping "${rule}". Expected from=to`);
+      }
+      return { from: rule.slice(0, eq), to: rule.slice(eq + 1) };
+    });
+}
+
+export function createRepoMapping(root: string, pathMap?: string): RepoMapping {
+  const absolute = resolve(expandHome(root));
+  if (!existsSync(absolute) || !statSync(absolute).isDirectory()) {
+    throw new Error(`Repository path not found: ${root}`);
+  }
+  return { root: absolute, mappings: parsePathMap(pathMap) };
+}
+
+// --repo wins over SLOG_REPO; path maps from both apply
+export function loadRepoMapping(repo?: string, pathMap?: string): RepoMapping | undefined {
+  const config = getRepoConfig();
+  const root = repo || config.root;
+  if (!root) return undefined;
+  return createRepoMapping(root, [pathMap, config.pathMap].filter(Boolean).join(','));
+}
+
+function cleanFramePath(path: string, mappings: PathMapping[]): string {
+  let result = path;
+
+  for (const { from, to } of mappings) {
+    if (result.startsWith(from)) {
+      result = to + result.slice(from.length);
+      break;
+    }
+  }
+
+  result = result.replace(/[?#].*$/, '');
+  for (const prefix of STRIP_PREFIXES) {
+    result = result.replace(prefix, '');
+  }
+
+  return result.replace(/^\/+/, '');
+}
+
+function isFile(path: string): boolean {
+  try {
+    return statSync(path).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Find the local file for a frame path, or undefined when nothing in the
+ * repo matches.
+ */
+export function findLocalFile(path: string, repo: RepoMapping): string | undefined {
+  const segments = cleanFramePath(path, repo.mappings).split(/[/\\]+/).filter(Boolean);
+  const last = Math.max(segments.length - 2, 0);
+
+  for (let i = 0; i <= last; i++) {
+    const candidate = join(repo.root, ...segments.slice(i));
+    // Never follow ../ out of the checkout
+    if (!candidate.startsWith(repo.root + sep)) continue;
+    if (isFile(candidate)) return candidate;
+  }
+
+  return undefined;
+}
+
+function readLines(path: string, cache: Map<string, string[]>): string[] {
+  let lines = cache.get(path);
+  if (!lines) {
+    lines = readFileSync(path, 'utf-8').split(/\r?\n/);
+    cache.set(path, lines);
+  }
+  return lines;
+}
+
+function hasDrifted(frame: NormalizedFrame, lines: string[]): boolean {
+  if (!frame.lineNo) return false;
+  if (frame.lineNo > lines.length) return true;
+
+  const expected = frame.context?.find((c) => c.current)?.code;
+  if (expected === undefined) return false;
+  return lines[frame.lineNo - 1].trim() !== expected.trim();
+}
+
+export function resolveLocalFrame(
+  frame: NormalizedFrame,
+  repo: RepoMapping,
+  cache: Map<string, string[]> = new Map()
+): LocalLocation | undefined {
+  for (const candidate of [frame.absPath, frame.filename]) {
+    if (!candidate) continue;
+    const path = findLocalFile(candidate, repo);
+    if (!path) continue;
+
+    return {
+      path,
+      lineNo: frame.lineNo,
+      colNo: frame.colNo,
+      drift: hasDrifted(frame, readLines(path, cache)),
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Attach `local` to every in-app frame that exists in the checkout.
+ */
+export function mapStackToRepo(stack: NormalizedStack, repo: RepoMapping): NormalizedStack {
+  const cache = new Map<string, string[]>();
+  const frames = [
+    ...stack.exceptions.flatMap((e) => e.frames),
+    ...stack.threads.flatMap((t) => t.frames),
+  ];
+
+  for (const frame of frames) {
+    if (!frame.inApp || frame.local) continue;
+    frame.local = resolveLocalFrame(frame, repo, cache);
+  }
+
+  return stack;
+}
+
+// path:line:col, relative to the working directory when inside it
+export function formatLocalLocation(local: LocalLocation): string {
+  const rel = relative(process.cwd(), local.path);
+  const path = rel && !rel.startsWith('..') && !isAbsolute(rel) ? rel : local.path;
+  const line = local.lineNo ? `:${local.lineNo}` : '';
+  const col = local.lineNo && local.colNo ? `:${local.colNo}` : '';
+  return `${path}${line}${col}`;
+}
@@ -0,0 +1,110 @@
+// Field selection for `slog search` (the org events / Discover API)
+//
+// Discover groups by every selected field that isn't an aggregate, so
+// --groupby just adds plain fields next to the --field aggregates. Sorting
+// is only allowed on selected fields, which is checked here rather than
+// coming back as a 400.
+
+const FUNCTION_PATTERN = /^([a-z_][a-z0-9_]*)\((.*)\)$/i;
+const FIELD_PATTERN = /^[A-Za-z_][\w.:[\]-]*$/;
+
+// Shown when nothing is selected and nothing is grouped
+export const DEFAULT_SEARCH_FIELDS = [
+  'timestamp',
+  'id',
+  'level',
+  'title',
+  'project',
+  'environment',
+  'release',
+];
+
+/**
+ * Split comma-separated fields, keeping commas inside function arguments:
+ * "count(), percentile(transaction.duration,0.95)" is two fields.
+ */
+export function splitFieldList(value: string): string[] {
+  const fields: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of value) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      fields.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  fields.push(current.trim());
+
+  return fields.filter(Boolean);
+}
+
+export function isAggregate(field: string): boolean {
+  return FUNCTION_PATTERN.test(field);
+}
+
+function validateField(field: string, flag: string): void {
+  let depth = 0;
+  for (const char of field) {
+    if (char === '(') depth++;
+    if (char === ')' && --depth < 0) break;
+  }
+  if (depth !== 0) {
+    throw new Error(`${flag}: unbalanced parentheses in "${field}"`);
+  }
+  if (!isAggregate(field) && !FIELD_PATTERN.test(field)) {
+    throw new Error(`${flag}: invalid field "${field}". Use a field name (release, url) or a function (count(), p95(transaction.duration))`);
+  }
+}
+
+export interface SearchFieldOptions {
+  field?: string[];
+  groupby?: string[];
+  orderby?: string[];
+}
+
+/**
+ * Resolve --field/--groupby/--orderby into the `field` and `sort` params.
+ * Grouping without an aggregate counts events per group; the default sort
+ * is the first aggregate descending, or newest first for plain events.
+ */
+export function buildSearchFields(options: SearchFieldOptions): { fields: string[]; sort: string[] } {
+  const selected = (options.field || []).flatMap(splitFieldList);
+  const groupby = (options.groupby || []).flatMap(splitFieldList);
+  const orderby = (options.orderby || []).flatMap(splitFieldList);
+
+  selected.forEach((field) => validateField(field, '--field'));
+  groupby.forEach((field) => {
+    validateField(field, '--groupby');
+    if (isAggregate(field)) {
+      throw new Error(`--groupby: "${field}" is an aggregate; pass it with --field instead`);
+    }
+  });
+
+  let fields = [...new Set([...groupby, ...selected])];
+  if (fields.length === 0) {
+    fields = DEFAULT_SEARCH_FIELDS;
+  } else if (groupby.length > 0 && !fields.some(isAggregate)) {
+    fields.push('count()');
+  }
+
+  for (const sort of orderby) {
+    const field = sort.replace(/^-/, '');
+    if (!fields.includes(field)) {
+      throw new Error(`--orderby: "${field}" isn't selected. Sort by one of: ${fields.join(', ')}`);
+    }
+  }
+
+  const aggregate = fields.find(isAggregate);
+  const sort = orderby.length > 0
+    ? orderby
+    : aggregate
+      ? [`-${aggregate}`]
+      : fields.includes('timestamp') ? ['-timestamp'] : [];
+
+  return { fields, sort };
+}
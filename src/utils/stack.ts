@@ -0,0 +1,218 @@
+import chalk from 'chalk';
+import type {
+  SentryEvent,
+  Stacktrace,
+  StackFrame,
+  StackMode,
+  NormalizedFrame,
+  NormalizedException,
+  NormalizedThread,
+  NormalizedStack,
+} from '../types.js';
+import { truncate } from './text.js';
+import { formatLocalLocation } from './repo.js';
+import { getEntry } from './entries.js';
+
+// Stacktrace rendering for `slog stack` and `events --expand --stack`
+//
+//   full     every frame, with source context where the SDK sent it
+//   in-app   in-app frames with context; runs of library frames collapse
+//   short    one line per frame, library runs collapsed
+//
+// Frames are listed most recent last, matching the Python/Node convention.
+
+export const STACK_MODES: StackMode[] = ['full', 'in-app', 'short'];
+
+export interface StackRenderOptions {
+  mode: StackMode;
+  // Print local variables under each expanded frame
+  vars?: boolean;
+  // Print every thread, not just the one that crashed
+  threads?: boolean;
+}
+
+const MAX_VAR_LENGTH = 120;
+
+function normalizeFrames(stacktrace: Stacktrace | undefined): NormalizedFrame[] {
+  return (stacktrace?.frames || []).map((frame: StackFrame, index) => ({
+    index,
+    filename: frame.filename,
+    absPath: frame.absPath,
+    module: frame.module,
+    function: frame.function || frame.rawFunction || frame.symbol,
+    lineNo: frame.lineNo,
+    colNo: frame.colNo,
+    inApp: frame.inApp === true,
+    context: frame.context?.map(([lineNo, code]) => ({
+      lineNo,
+      code,
+      current: lineNo === frame.lineNo,
+    })),
+    vars: frame.vars,
+  }));
+}
+
+/**
+ * Flatten an event's exception and thread entries into one structure.
+ * Exceptions keep Sentry's order (innermost cause first). An exception
+ * without a stacktrace of its own borrows the frames of its thread.
+ */
+export function normalizeStack(event: SentryEvent): NormalizedStack {
+  const threads: NormalizedThread[] = (getEntry(event, 'threads')?.values || []).map(
+    (thread) => ({
+      id: thread.id,
+      name: thread.name,
+      crashed: thread.crashed === true,
+      current: thread.current === true,
+      frames: normalizeFrames(thread.stacktrace),
+    })
+  );
+
+  const exceptions: NormalizedException[] = (
+    getEntry(event, 'exception')?.values || []
+  ).map((value) => {
+    let frames = normalizeFrames(value.stacktrace);
+    if (frames.length === 0 && value.threadId !== undefined) {
+      frames = threads.find((t) => String(t.id) === String(value.threadId))?.frames || [];
+    }
+    return {
+      type: value.type,
+      value: value.value,
+      module: value.module,
+      mechanism: value.mechanism,
+      threadId: value.threadId,
+      frames,
+    };
+  });
+
+  return { eventId: event.eventID, exceptions, threads };
+}
+
+export function frameLocation(frame: NormalizedFrame): string {
+  if (frame.local) {
+    return `${formatLocalLocation(frame.local)} in ${frame.function || '?'}`;
+  }
+
+  const filename = frame.filename || frame.absPath || frame.module || '?';
+  const line = frame.lineNo ? `:${frame.lineNo}` : '';
+  const col = frame.colNo ? `:${frame.colNo}` : '';
+  return `${filename}${line}${col} in ${frame.function || '?'}`;
+}
+
+function varText(value: unknown): string {
+  // SDKs mostly send repr() strings already
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return truncate((text ?? 'undefined').replace(/\s*\n\s*/g, ' '), MAX_VAR_LENGTH);
+}
+
+function renderFrame(frame: NormalizedFrame, expand: boolean, options: StackRenderOptions): string[] {
+  const marker = frame.inApp ? chalk.green('●') : chalk.gray('○');
+  const location = frameLocation(frame);
+  const index = chalk.gray(`#${frame.index}`);
+  const lines = [`  ${marker} ${index} ${frame.inApp ? location : chalk.gray(location)}`];
+  if (frame.local?.drift) {
+    lines.push(chalk.yellow('      ! local source differs from this event (code has changed since)'));
+  }
+  if (!expand) return lines;
+
+  if (frame.context && frame.context.length > 0) {
+    const width = String(Math.max(...frame.context.map((c) => c.lineNo))).length;
+    for (const { lineNo, code, current } of frame.context) {
+      const gutter = String(lineNo).padStart(width);
+      lines.push(
+        current
+          ? chalk.red.bold(`    > ${gutter} | ${code}`)
+          : chalk.gray(`      ${gutter} | `) + code
+      );
+    }
+  }
+
+  if (options.vars && frame.vars && Object.keys(frame.vars).length > 0) {
+    lines.push(chalk.gray('      vars:'));
+    for (const [name, value] of Object.entries(frame.vars)) {
+      lines.push(`        ${chalk.cyan(name)} = ${varText(value)}`);
+    }
+  }
+
+  return lines;
+}
+
+function collapsedLine(count: number): string {
+  return chalk.gray(`  ⋯ ${count} library frame${count === 1 ? '' : 's'}`);
+}
+
+/**
+ * Render frames (most recent last) for the given mode. The last frame is
+ * always shown, as is everything when no frame is marked in-app.
+ */
+export function renderFrames(frames: NormalizedFrame[], options: StackRenderOptions): string[] {
+  if (frames.length === 0) return [chalk.gray('  No stacktrace available')];
+
+  const collapse = options.mode !== 'full' && frames.some((f) => f.inApp);
+  const expand = options.mode !== 'short';
+  const lines: string[] = [];
+  let hidden = 0;
+
+  frames.forEach((frame, i) => {
+    const last = i === frames.length - 1;
+    if (collapse && !frame.inApp && !last) {
+      hidden++;
+      return;
+    }
+    if (hidden > 0) lines.push(collapsedLine(hidden));
+    hidden = 0;
+    lines.push(...renderFrame(frame, expand && (frame.inApp || !collapse || last), options));
+  });
+
+  return lines;
+}
+
+function exceptionHeading(exception: NormalizedException): string {
+  const name = exception.module ? `${exception.module}.${exception.type}` : exception.type;
+  const heading = chalk.red.bold(`${name}: ${exception.value ?? ''}`.trim());
+  if (!exception.mechanism) return heading;
+
+  const { type, handled } = exception.mechanism;
+  const state = handled === false ? chalk.red('unhandled') : chalk.green('handled');
+  return `${heading} ${chalk.gray(`(${type}, `)}${state}${chalk.gray(')')}`;
+}
+
+function threadHeading(thread: NormalizedThread): string {
+  const flags = [thread.crashed && chalk.red('crashed'), thread.current && 'current']
+    .filter(Boolean)
+    .join(', ');
+  const name = `Thread ${thread.id ?? '?'}${thread.name ? ` "${thread.name}"` : ''}`;
+  return chalk.bold(name) + (flags ? ` (${flags})` : '');
+}
+
+export function formatStack(stack: NormalizedStack, options: StackRenderOptions): string {
+  const lines: string[] = [];
+
+  // Outermost exception first, then what caused it
+  const chain = [...stack.exceptions].reverse();
+  chain.forEach((exception, i) => {
+    if (i > 0) lines.push('', chalk.gray('Caused by:'));
+    lines.push(exceptionHeading(exception));
+    lines.push(...renderFrames(exception.frames, options));
+  });
+
+  // Exceptions carry their thread's frames; otherwise fall back to the
+  // thread that crashed (or was current) when no exception was captured
+  const shown = new Set(
+    stack.exceptions.filter((e) => e.threadId !== undefined).map((e) => String(e.threadId))
+  );
+  const threads = options.threads
+    ? stack.threads.filter((t) => !shown.has(String(t.id)))
+    : chain.length === 0
+      ? stack.threads.filter((t) => t.crashed || t.current).slice(0, 1)
+      : [];
+
+  for (const thread of threads) {
+    if (lines.length > 0) lines.push('');
+    lines.push(threadHeading(thread));
+    lines.push(...renderFrames(thread.frames, options));
+  }
+
+  if (lines.length === 0) return chalk.gray('No stacktrace available');
+  return lines.join('\n');
+}
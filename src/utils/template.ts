@@ -0,0 +1,144 @@
+import chalk from 'chalk';
+import { getFieldValue } from './redact.js';
+import { formatTimeAgo, truncate, colorLevel } from './text.js';
+
+// One-line text templates for --template
+//
+//   '{shortId} {level|color} {title|truncate:60} ({lastSeen|timeago})'
+//
+// Placeholders take any --fields path and an optional chain of filters.
+// Use {{ and }} for literal braces.
+
+type TemplateFilter = (value: string, arg: string | undefined, record: object) => string;
+
+function recordLevel(record: object): string | undefined {
+  const level = getFieldValue(record, 'level') ?? getFieldValue(record, 'tags.level');
+  return typeof level === 'string' ? level : undefined;
+}
+
+const LEVEL_COLORS: Record<string, (text: string) => string> = {
+  fatal: chalk.red,
+  error: chalk.red,
+  warning: chalk.yellow,
+  info: chalk.blue,
+};
+
+// Values that aren't dates are left as they are
+function formatDate(value: string, format: (iso: string) => string): string {
+  const time = value ? Date.parse(value) : NaN;
+  return Number.isNaN(time) ? value : format(new Date(time).toISOString());
+}
+
+// Filters whose argument is a width, checked when the template is parsed,
+// with the smallest width each accepts (truncate needs room for "...")
+const WIDTH_FILTERS: Record<string, number> = { truncate: 3, pad: 0, padleft: 0 };
+
+const FILTERS: Record<string, TemplateFilter> = {
+  truncate: (value, arg) => truncate(value, parseInt(arg || '40', 10)),
+  pad: (value, arg) => value.padEnd(parseInt(arg || '0', 10)),
+  padleft: (value, arg) => value.padStart(parseInt(arg || '0', 10)),
+  upper: (value) => value.toUpperCase(),
+  lower: (value) => value.toLowerCase(),
+  timeago: (value) => formatDate(value, formatTimeAgo),
+  date: (value) => formatDate(value, (iso) => iso),
+  time: (value) => formatDate(value, (iso) => iso.slice(11, 19)),
+  default: (value, arg) => value || arg || '',
+  // Color the value by the record's level (or the value itself when it is a level)
+  color: (value, _arg, record) => {
+    const level = LEVEL_COLORS[value.toLowerCase()] ? value : recordLevel(record);
+    if (!level) return value;
+    if (level === value) return colorLevel(value);
+    return (LEVEL_COLORS[level.toLowerCase()] ?? chalk.gray)(value);
+  },
+};
+
+interface Placeholder {
+  path: string;
+  filters: Array<{ name: string; arg?: string }>;
+}
+
+type TemplatePart = string | Placeholder;
+
+const templateCache = new Map<string, TemplatePart[]>();
+
+export function parseTemplate(template: string): TemplatePart[] {
+  const cached = templateCache.get(template);
+  if (cached) return cached;
+
+  const parts: TemplatePart[] = [];
+  let text = '';
+  let i = 0;
+
+  while (i < template.length) {
+    const char = template[i];
+
+    if ((char === '{' || char === '}') && template[i + 1] === char) {
+      text += char;
+      i += 2;
+      continue;
+    }
+
+    if (char === '}') {
+      throw new Error(`Unmatched "}" at position ${i + 1} in template`);
+    }
+
+    if (char !== '{') {
+      text += char;
+      i++;
+      continue;
+    }
+
+    const end = template.indexOf('}', i);
+    if (end === -1) {
+      throw new Error(`Unclosed "{" at position ${i + 1} in template`);
+    }
+
+    const [path, ...filterSpecs] = template.slice(i + 1, end).split('|').map((s) => s.trim());
+    if (!path) {
+      throw new Error(`Empty placeholder at position ${i + 1} in template`);
+    }
+
+    const filters = filterSpecs.map((spec) => {
+      const colon = spec.indexOf(':');
+      const name = colon === -1 ? spec : spec.slice(0, colon);
+      if (!FILTERS[name]) {
+        throw new Error(`Unknown template filter "${name}". Available: ${Object.keys(FILTERS).join(', ')}`);
+      }
+      const arg = colon === -1 ? undefined : spec.slice(colon + 1);
+      const minWidth = Object.hasOwn(WIDTH_FILTERS, name) ? WIDTH_FILTERS[name] : undefined;
+      if (arg !== undefined && minWidth !== undefined && !(/^\d+$/.test(arg) && Number(arg) >= minWidth)) {
+        const width = minWidth > 0 ? `a width of at least ${minWidth}` : 'a width';
+        throw new Error(`Template filter "${name}" takes ${width}, got "${arg}"`);
+      }
+      return { name, arg };
+    });
+
+    if (text) parts.push(text);
+    text = '';
+    parts.push({ path, filters });
+    i = end + 1;
+  }
+
+  if (text) parts.push(text);
+  templateCache.set(template, parts);
+  return parts;
+}
+
+function placeholderText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+export function renderTemplate(template: string, record: object): string {
+  return parseTemplate(template)
+    .map((part) => {
+      if (typeof part === 'string') return part;
+      let value = placeholderText(getFieldValue(record, part.path));
+      for (const filter of part.filters) {
+        value = FILTERS[filter.name](value, filter.arg, record);
+      }
+      return value;
+    })
+    .join('');
+}
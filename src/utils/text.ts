@@ -0,0 +1,46 @@
+import chalk from 'chalk';
+import { stripVTControlCharacters } from 'node:util';
+
+// Time formatting
+export function formatTimeAgo(dateStr: string): string {
+  const date = new Date(dateStr);
+  const now = new Date();
+  const diffMs = now.getTime() - date.getTime();
+  const diffSecs = Math.floor(diffMs / 1000);
+  const diffMins = Math.floor(diffSecs / 60);
+  const diffHours = Math.floor(diffMins / 60);
+  const diffDays = Math.floor(diffHours / 24);
+
+  if (diffDays > 0) return `${diffDays}d ago`;
+  if (diffHours > 0) return `${diffHours}h ago`;
+  if (diffMins > 0) return `${diffMins}m ago`;
+  return `${diffSecs}s ago`;
+}
+
+export function truncate(str: string, maxLen: number): string {
+  if (str.length <= maxLen) return str;
+  return str.slice(0, maxLen - 3) + '...';
+}
+
+// Terminal rows the text takes up, counting lines that wrap at `columns`
+export function terminalRows(text: string, columns: number | undefined): number {
+  return text.split('\n').reduce((rows, line) => {
+    const width = stripVTControlCharacters(line).length;
+    return rows + (columns && width > columns ? Math.ceil(width / columns) : 1);
+  }, 0);
+}
+
+// Level coloring
+export function colorLevel(level: string): string {
+  switch (level.toLowerCase()) {
+    case 'error':
+    case 'fatal':
+      return chalk.red(level);
+    case 'warning':
+      return chalk.yellow(level);
+    case 'info':
+      return chalk.blue(level);
+    default:
+      return chalk.gray(level);
+  }
+}
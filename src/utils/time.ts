@@ -0,0 +1,348 @@
+import type { TimeRange } from '../types.js';
+
+const UNIT_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+  s: 's', sec: 's', secs: 's', second: 's', seconds: 's',
+  m: 'm', min: 'm', mins: 'm', minute: 'm', minutes: 'm',
+  h: 'h', hr: 'h', hrs: 'h', hour: 'h', hours: 'h',
+  d: 'd', day: 'd', days: 'd',
+  w: 'w', wk: 'w', wks: 'w', week: 'w', weeks: 'w',
+};
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const TIME_HELP =
+  'Use an ISO timestamp (2024-05-01T09:30Z), a date (2024-05-01), or an expression ' +
+  'like "2h ago", "yesterday", "today 09:00" or "last monday".';
+
+// Count and canonical unit of a duration, or null when it isn't one
+function durationParts(value: string): { count: number; unit: string } | null {
+  const match = value.trim().toLowerCase().match(/^(\d+)\s*([a-z]*)$/);
+  const unit = match && (match[2] ? UNIT_ALIASES[match[2]] : 'm');
+  return match && unit ? { count: parseInt(match[1], 10), unit } : null;
+}
+
+/**
+ * Parse a duration like "90s", "30m", "2h", "7d", "1w" or "3 days" into
+ * milliseconds. A bare number is treated as minutes.
+ */
+export function parseDuration(value: string): number {
+  const parts = durationParts(value);
+  if (!parts) {
+    throw new Error(`Invalid duration "${value}". Use a number with s, m, h, d or w (e.g. 30m, 2h, 7d).`);
+  }
+
+  return parts.count * UNIT_MS[parts.unit];
+}
+
+/**
+ * Format milliseconds as the largest whole unit, e.g. "3d" or "45m".
+ */
+export function formatDuration(ms: number): string {
+  const abs = Math.abs(ms);
+  for (const unit of ['w', 'd', 'h', 'm']) {
+    if (abs >= UNIT_MS[unit]) return `${Math.floor(abs / UNIT_MS[unit])}${unit}`;
+  }
+  return `${Math.floor(abs / 1000)}s`;
+}
+
+// Sentry expects naive UTC timestamps for start/end
+export function toApiTime(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 19);
+}
+
+// Time zones
+//
+// Dates and wall-clock times without an explicit offset ("2024-05-01",
+// "today 09:00") are read in the given IANA zone, or the system zone.
+// Intl only converts UTC -> local, so local -> UTC guesses with the
+// zone's offset at that instant and corrects once for DST transitions.
+
+interface WallClock {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function zoneFormatter(tz: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(tz);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: tz,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(tz, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check that a time zone name is one Intl knows, e.g. "Europe/Berlin".
+ */
+export function validateTimeZone(tz: string): string {
+  try {
+    zoneFormatter(tz);
+  } catch {
+    throw new Error(`Unknown time zone "${tz}". Use an IANA name such as UTC, Europe/Berlin or America/New_York.`);
+  }
+  return tz;
+}
+
+function systemTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+function wallClockAt(ms: number, tz: string): WallClock {
+  const parts: Record<string, number> = {};
+  for (const part of zoneFormatter(tz).formatToParts(new Date(ms))) {
+    if (part.type !== 'literal') parts[part.type] = parseInt(part.value, 10);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+function wallClockAsUtc(clock: WallClock): number {
+  return Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second);
+}
+
+function zoneOffset(ms: number, tz: string): number {
+  return wallClockAsUtc(wallClockAt(ms, tz)) - Math.floor(ms / 1000) * 1000;
+}
+
+function fromWallClock(clock: WallClock, tz: string): number {
+  const guess = wallClockAsUtc(clock);
+  const first = guess - zoneOffset(guess, tz);
+  return guess - zoneOffset(first, tz);
+}
+
+// Calendar date `days` away from the given one, normalizing month ends
+function shiftDate(clock: WallClock, days: number): WallClock {
+  const date = new Date(Date.UTC(clock.year, clock.month - 1, clock.day + days));
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    hour: 0,
+    minute: 0,
+    second: 0,
+  };
+}
+
+function weekdayOf(clock: WallClock): number {
+  return new Date(Date.UTC(clock.year, clock.month - 1, clock.day)).getUTCDay();
+}
+
+function parseWeekday(word: string): number {
+  if (word.length < 3) return -1;
+  return WEEKDAYS.findIndex((day) => day.startsWith(word));
+}
+
+// "09:00", "9:30pm", "9am", "17:45:10"
+function parseClockTime(text: string): Pick<WallClock, 'hour' | 'minute' | 'second'> | null {
+  const match = text.match(/^(\d{1,2})(?::(\d{2}))?(?::(\d{2}))?\s*(am|pm)?$/);
+  if (!match || (match[2] === undefined && !match[4])) return null;
+
+  let hour = parseInt(match[1], 10);
+  const minute = match[2] ? parseInt(match[2], 10) : 0;
+  const second = match[3] ? parseInt(match[3], 10) : 0;
+  if (match[4]) {
+    if (hour < 1 || hour > 12) return null;
+    hour = (hour % 12) + (match[4] === 'pm' ? 12 : 0);
+  }
+  if (hour > 23 || minute > 59 || second > 59) return null;
+
+  return { hour, minute, second };
+}
+
+function isValidClock(clock: WallClock): boolean {
+  const date = new Date(wallClockAsUtc(clock));
+  return (
+    date.getUTCFullYear() === clock.year &&
+    date.getUTCMonth() + 1 === clock.month &&
+    date.getUTCDate() === clock.day &&
+    clock.hour < 24 &&
+    clock.minute < 60 &&
+    clock.second < 60
+  );
+}
+
+function parseIsoTime(text: string, tz: string): number | undefined {
+  const match = text.match(
+    /^(\d{4})-(\d{2})-(\d{2})(?:[t ](\d{1,2}):(\d{2})(?::(\d{2})(\.\d+)?)?)?\s*(z|[+-]\d{2}:?\d{2})?$/
+  );
+  if (!match) return undefined;
+
+  const clock: WallClock = {
+    year: parseInt(match[1], 10),
+    month: parseInt(match[2], 10),
+    day: parseInt(match[3], 10),
+    hour: match[4] ? parseInt(match[4], 10) : 0,
+    minute: match[5] ? parseInt(match[5], 10) : 0,
+    second: match[6] ? parseInt(match[6], 10) : 0,
+  };
+  if (!isValidClock(clock)) return NaN;
+
+  const millis = match[7] ? Math.round(parseFloat(match[7]) * 1000) : 0;
+  if (!match[8]) return fromWallClock(clock, tz) + millis;
+
+  const offset = match[8] === 'z' ? '+00:00' : match[8].replace(/^([+-]\d{2}):?(\d{2})$/, '$1:$2');
+  const [, sign, hours, minutes] = offset.match(/^([+-])(\d{2}):(\d{2})$/)!;
+  const offsetMs = (parseInt(hours, 10) * 60 + parseInt(minutes, 10)) * 60_000;
+  return wallClockAsUtc(clock) + millis - (sign === '-' ? -offsetMs : offsetMs);
+}
+
+// "today", "yesterday 18:00", "last friday", "mon 9am"
+function parseDayExpression(text: string, now: number, tz: string): number | undefined {
+  const match = text.match(/^(today|yesterday|tomorrow|(last\s+)?([a-z]+))(?:\s+(?:at\s+)?(.+))?$/);
+  if (!match) return undefined;
+
+  const today = wallClockAt(now, tz);
+  let offset: number;
+  if (match[1] === 'today') offset = 0;
+  else if (match[1] === 'yesterday') offset = -1;
+  else if (match[1] === 'tomorrow') offset = 1;
+  else {
+    const weekday = parseWeekday(match[3]);
+    if (weekday < 0) return undefined;
+    // "monday" may be today; "last monday" is always before today
+    const back = (weekdayOf(today) - weekday + 7) % 7;
+    offset = -(back === 0 && match[2] ? 7 : back);
+  }
+
+  const clock = shiftDate(today, offset);
+  if (match[4]) {
+    const time = parseClockTime(match[4]);
+    if (!time) return NaN;
+    Object.assign(clock, time);
+  }
+
+  return fromWallClock(clock, tz);
+}
+
+export interface TimeParseOptions {
+  // IANA zone for dates and wall-clock times; defaults to the system zone
+  tz?: string;
+  now?: number;
+}
+
+/**
+ * Parse a point in time into epoch milliseconds. Accepts ISO timestamps and
+ * dates, "now", "2h ago", "today", "yesterday 18:00", "last monday" and
+ * weekday names.
+ */
+export function parseTime(value: string, options: TimeParseOptions = {}): number {
+  const text = value.trim().toLowerCase().replace(/\s+/g, ' ');
+  const now = options.now ?? Date.now();
+  const tz = options.tz ? validateTimeZone(options.tz) : systemTimeZone();
+
+  let result: number | undefined;
+  if (text === 'now') {
+    result = now;
+  } else {
+    const ago = text.match(/^(.+?)\s*ago$/);
+    if (ago) {
+      try {
+        result = now - parseDuration(ago[1]);
+      } catch {
+        result = NaN;
+      }
+    } else {
+      result = parseIsoTime(text, tz) ?? parseDayExpression(text, now, tz);
+    }
+  }
+
+  if (result === undefined || Number.isNaN(result)) {
+    throw new Error(`Invalid time "${value}". ${TIME_HELP}`);
+  }
+  return result;
+}
+
+function tryParseDuration(value: string): number | undefined {
+  const parts = durationParts(value);
+  return parts ? parts.count * UNIT_MS[parts.unit] : undefined;
+}
+
+/**
+ * Start of a `--since` window: a duration back from now ("30m", "7 days")
+ * or any time `parseTime` understands ("yesterday").
+ */
+export function parseSince(value: string, options: TimeParseOptions = {}): number {
+  const duration = tryParseDuration(value);
+  if (duration !== undefined) return (options.now ?? Date.now()) - duration;
+  return parseTime(value, options);
+}
+
+export interface TimeRangeInput {
+  since?: string;
+  start?: string;
+  end?: string;
+  tz?: string;
+}
+
+/**
+ * Turn --since/--start/--end into Sentry's query window. A plain duration
+ * becomes a relative statsPeriod; anything absolute becomes start/end, with
+ * the end defaulting to now.
+ */
+export function resolveTimeRange(input: TimeRangeInput, now: number = Date.now()): TimeRange {
+  const options: TimeParseOptions = { tz: input.tz, now };
+  if (input.tz) validateTimeZone(input.tz);
+
+  if (input.since && input.start) {
+    throw new Error('Use either --since or --start, not both.');
+  }
+
+  const duration = input.since ? tryParseDuration(input.since) : undefined;
+  if (duration === 0) {
+    throw new Error(`Invalid duration "${input.since}". It must be longer than zero.`);
+  }
+  if (duration !== undefined && !input.end) {
+    const { count, unit } = durationParts(input.since!)!;
+    return { statsPeriod: `${count}${unit}` };
+  }
+
+  const end = input.end ? parseTime(input.end, options) : now;
+  let start: number | undefined;
+  if (duration !== undefined) start = end - duration;
+  else if (input.since) start = parseTime(input.since, options);
+  else if (input.start) start = parseTime(input.start, options);
+
+  if (start === undefined) {
+    if (!input.end) return {};
+    throw new Error('--end needs a start: add --start or --since.');
+  }
+  if (start > now) {
+    throw new Error(`Start time ${new Date(start).toISOString()} is in the future.`);
+  }
+  if (start >= end) {
+    throw new Error(
+      `Start time ${new Date(start).toISOString()} is not before end time ${new Date(end).toISOString()}.`
+    );
+  }
+
+  return { start: toApiTime(start), end: toApiTime(end) };
+}
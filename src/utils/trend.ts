@@ -0,0 +1,73 @@
+import type { IssueTrend, SentryIssue, StatsPeriod } from '../types.js';
+
+// Trend detection from an issue's stats series
+//
+// The series is split in half; the recent half is compared with the earlier
+// one. Issues first seen within the recent half are "new". Small counts need
+// a minimum absolute change so that 1 → 3 events isn't a spike.
+
+const RISING_RATIO = 1.5;
+const MIN_DELTA = 5;
+
+export function computeTrend(
+  series: Array<[number, number]> | undefined,
+  firstSeen?: string
+): IssueTrend | undefined {
+  if (!series || series.length < 2) return undefined;
+
+  const half = Math.floor(series.length / 2);
+  const sum = (points: Array<[number, number]>) => points.reduce((total, [, count]) => total + count, 0);
+  const previous = sum(series.slice(0, series.length - half));
+  const recent = sum(series.slice(series.length - half));
+  const change = previous > 0 ? (recent - previous) / previous : null;
+
+  // Bucket timestamps are unix seconds at the start of each bucket
+  const recentStart = series[series.length - half][0] * 1000;
+  const firstSeenMs = firstSeen ? new Date(firstSeen).getTime() : NaN;
+
+  let direction: IssueTrend['direction'] = 'flat';
+  if (firstSeenMs >= recentStart || (previous === 0 && recent > 0)) {
+    direction = 'new';
+  } else if (recent >= previous * RISING_RATIO && recent - previous >= MIN_DELTA) {
+    direction = 'rising';
+  } else if (recent * RISING_RATIO <= previous && previous - recent >= MIN_DELTA) {
+    direction = 'falling';
+  }
+
+  return { direction, recent, previous, change };
+}
+
+export function withTrend(issue: SentryIssue, period: StatsPeriod): SentryIssue {
+  const trend = computeTrend(issue.stats?.[period], issue.firstSeen);
+  return trend ? { ...issue, trend } : issue;
+}
+
+// --sort trend: new issues first, then by growth ratio, then by recent volume
+function trendRank(issue: SentryIssue): [number, number, number] {
+  const trend = issue.trend;
+  if (!trend) return [0, 0, 0];
+  if (trend.direction === 'new') return [2, 0, trend.recent];
+  return [1, (trend.recent + 1) / (trend.previous + 1), trend.recent];
+}
+
+export function sortByTrend(issues: SentryIssue[]): SentryIssue[] {
+  return [...issues].sort((a, b) => {
+    const ra = trendRank(a);
+    const rb = trendRank(b);
+    return rb[0] - ra[0] || rb[1] - ra[1] || rb[2] - ra[2];
+  });
+}
+
+export function formatTrend(trend: IssueTrend | undefined): string {
+  if (!trend) return '-';
+  switch (trend.direction) {
+    case 'new':
+      return '★ new';
+    case 'rising':
+      return trend.change === null ? '↑' : `↑ +${Math.round(trend.change * 100)}%`;
+    case 'falling':
+      return trend.change === null ? '↓' : `↓ ${Math.round(trend.change * 100)}%`;
+    default:
+      return '→';
+  }
+}
@@ -0,0 +1,152 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import type {
+  SentryIssue,
+  SentryEvent,
+  SentryEventEntry,
+  SentryWebhookPayload,
+  WebhookMessage,
+  WebhookResource,
+} from '../types.js';
+import { parseTags } from './entries.js';
+
+/**
+ * Check a Sentry-Hook-Signature header: hex HMAC-SHA256 of the raw body
+ * keyed with the integration's client secret.
+ */
+export function verifyWebhookSignature(
+  body: string,
+  signature: string | undefined,
+  secret: string
+): boolean {
+  if (!signature) return false;
+
+  const expected = createHmac('sha256', secret).update(body, 'utf-8').digest();
+  let received: Buffer;
+  try {
+    received = Buffer.from(signature.trim(), 'hex');
+  } catch {
+    return false;
+  }
+
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+function optionalString(value: unknown): string | undefined {
+  if (value === null || value === undefined || value === '') return undefined;
+  return String(value);
+}
+
+// Webhook timestamps are either ISO strings or unix seconds; anything
+// unreadable falls back to now
+function toIsoTime(value: unknown): string {
+  const time = typeof value === 'number' ? value * 1000
+    : typeof value === 'string' && value ? Date.parse(value)
+    : NaN;
+  return new Date(Number.isNaN(time) ? Date.now() : time).toISOString();
+}
+
+// Webhook events carry interfaces as top-level keys rather than `entries`
+function normalizeEntries(data: Record<string, unknown>): SentryEventEntry[] | undefined {
+  if (Array.isArray(data.entries)) return data.entries as SentryEventEntry[];
+
+  const entries: SentryEventEntry[] = [];
+  for (const type of ['exception', 'breadcrumbs', 'request', 'message', 'threads']) {
+    if (data[type]) entries.push({ type, data: data[type] });
+  }
+  return entries.length > 0 ? entries : undefined;
+}
+
+/**
+ * Map a webhook event payload (snake_case, as sent by event_alert and error
+ * webhooks) onto the SentryEvent shape used by the API and formatters.
+ */
+export function normalizeWebhookEvent(data: Record<string, unknown>): SentryEvent {
+  const eventId = optionalString(data.event_id ?? data.eventID ?? data.id) || '';
+  const tags = parseTags(data.tags);
+
+  const level = optionalString(data.level);
+  if (level && !tags.some((tag) => tag.key === 'level')) {
+    tags.push({ key: 'level', value: level });
+  }
+
+  const logentry = data.logentry as { formatted?: string } | undefined;
+  const release = data.release;
+
+  return {
+    eventID: eventId,
+    id: eventId,
+    groupID: optionalString(data.issue_id ?? data.group_id ?? data.groupID),
+    dateCreated: toIsoTime(data.datetime ?? data.dateCreated ?? data.timestamp),
+    title: optionalString(data.title),
+    message: optionalString(data.message) ?? logentry?.formatted,
+    culprit: optionalString(data.culprit),
+    location: optionalString(data.location),
+    platform: optionalString(data.platform),
+    environment: optionalString(data.environment),
+    release: typeof release === 'string'
+      ? { version: release }
+      : (release as SentryEvent['release']) ?? undefined,
+    dist: optionalString(data.dist),
+    user: data.user as SentryEvent['user'],
+    sdk: data.sdk as SentryEvent['sdk'],
+    contexts: data.contexts as SentryEvent['contexts'],
+    metadata: data.metadata as SentryEvent['metadata'],
+    entries: normalizeEntries(data),
+    tags,
+  };
+}
+
+// Issue webhooks already use the API's issue serializer; fill in what may be missing
+export function normalizeWebhookIssue(data: Record<string, unknown>): SentryIssue {
+  const issue = data as Partial<SentryIssue>;
+  return {
+    ...issue,
+    id: String(issue.id ?? ''),
+    shortId: issue.shortId ?? String(issue.id ?? ''),
+    title: issue.title ?? '-',
+    culprit: issue.culprit ?? '',
+    level: issue.level ?? 'error',
+    status: issue.status ?? 'unresolved',
+    platform: issue.platform ?? '',
+    project: issue.project ?? { id: '', name: '', slug: '' },
+    type: issue.type ?? 'error',
+    metadata: issue.metadata ?? {},
+    count: String(issue.count ?? '0'),
+    userCount: issue.userCount ?? 0,
+    firstSeen: issue.firstSeen ?? new Date().toISOString(),
+    lastSeen: issue.lastSeen ?? new Date().toISOString(),
+    hasSeen: issue.hasSeen ?? false,
+    isBookmarked: issue.isBookmarked ?? false,
+    isSubscribed: issue.isSubscribed ?? false,
+    annotations: issue.annotations ?? [],
+  };
+}
+
+/**
+ * Turn a webhook body into a typed message. Throws on malformed JSON.
+ */
+export function parseWebhook(resource: string, body: string): WebhookMessage {
+  const payload = JSON.parse(body) as SentryWebhookPayload;
+  const action = payload.action || 'unknown';
+  const data = payload.data || {};
+
+  if (resource === 'issue' && data.issue) {
+    return {
+      kind: 'issue',
+      action,
+      issue: normalizeWebhookIssue(data.issue as Record<string, unknown>),
+    };
+  }
+
+  const event = data.event ?? data.error;
+  if ((resource === 'event_alert' || resource === 'error') && event) {
+    return {
+      kind: 'event',
+      resource: resource as WebhookResource,
+      action,
+      event: normalizeWebhookEvent(event as Record<string, unknown>),
+    };
+  }
+
+  return { kind: 'other', resource, action, data };
+}
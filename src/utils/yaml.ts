@@ -0,0 +1,225 @@
+// Reader for the small YAML subset used by rule files (`slog check --file`)
+//
+// Block mappings and sequences, plain and quoted scalars, flow lists of
+// scalars ([a, b]) and # comments. Anchors, tags, flow mappings and
+// multi-line strings aren't supported and are reported with their line
+// number instead of being misread.
+
+export class YamlError extends Error {
+  constructor(
+    message: string,
+    public line: number
+  ) {
+    super(`line ${line}: ${message}`);
+    this.name = 'YamlError';
+  }
+}
+
+interface YamlLine {
+  indent: number;
+  text: string;
+  line: number;
+}
+
+const NUMBER_PATTERN = /^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/;
+
+// A quote only opens a string at the start of a token, so "it's" stays plain
+function opensQuote(text: string, index: number): boolean {
+  return (text[index] === '"' || text[index] === "'") && (index === 0 || /[\s[,:-]/.test(text[index - 1]));
+}
+
+// Index just past the string starting at `index`, or -1 if it isn't closed
+function skipQuoted(text: string, index: number): number {
+  const quote = text[index];
+  for (let i = index + 1; i < text.length; i++) {
+    if (quote === '"' && text[i] === '\\') i++;
+    else if (text[i] === quote) {
+      if (quote === "'" && text[i + 1] === "'") i++;
+      else return i + 1;
+    }
+  }
+  return -1;
+}
+
+function stripComment(text: string): string {
+  for (let i = 0; i < text.length; i++) {
+    if (opensQuote(text, i)) {
+      const end = skipQuoted(text, i);
+      if (end === -1) return text;
+      i = end - 1;
+    } else if (text[i] === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i);
+    }
+  }
+  return text;
+}
+
+function toLines(content: string): YamlLine[] {
+  const lines: YamlLine[] = [];
+
+  content.split('\n').forEach((raw, i) => {
+    const text = stripComment(raw.replace(/\r$/, '')).trimEnd();
+    if (!text.trim() || (lines.length === 0 && text === '---')) return;
+
+    const indent = text.length - text.trimStart().length;
+    if (text.slice(0, indent).includes('\t')) {
+      throw new YamlError('tabs are not allowed in indentation', i + 1);
+    }
+    lines.push({ indent, text: text.trimStart(), line: i + 1 });
+  });
+
+  return lines;
+}
+
+function isSequenceItem(text: string): boolean {
+  return text === '-' || text.startsWith('- ');
+}
+
+// Position of the ": " separating a key from its value, or -1 for a scalar
+function mappingColon(text: string): number {
+  for (let i = 0; i < text.length; i++) {
+    if (opensQuote(text, i)) {
+      const end = skipQuoted(text, i);
+      if (end === -1) return -1;
+      i = end - 1;
+    } else if (text[i] === ':' && (i === text.length - 1 || text[i + 1] === ' ')) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function splitFlowList(text: string, line: number): string[] {
+  const items: string[] = [];
+  let start = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    if (opensQuote(text, i)) {
+      const end = skipQuoted(text, i);
+      if (end === -1) throw new YamlError(`unterminated string in ${text}`, line);
+      i = end - 1;
+    } else if (text[i] === ',') {
+      items.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  items.push(text.slice(start));
+
+  return items.map((item) => item.trim()).filter(Boolean);
+}
+
+function parseScalar(text: string, line: number): unknown {
+  const first = text[0];
+
+  if (first === '"' || first === "'") {
+    if (skipQuoted(text, 0) !== text.length) {
+      throw new YamlError(`unterminated or trailing text after string: ${text}`, line);
+    }
+    if (first === "'") return text.slice(1, -1).replace(/''/g, "'");
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new YamlError(`invalid escape in string: ${text}`, line);
+    }
+  }
+
+  if (first === '[') {
+    if (!text.endsWith(']')) throw new YamlError(`unterminated list: ${text}`, line);
+    return splitFlowList(text.slice(1, -1), line).map((item) => parseScalar(item, line));
+  }
+  if (first === '{') {
+    throw new YamlError('flow mappings ({ ... }) are not supported; use one "key: value" per line', line);
+  }
+  if (first === '|' || first === '>') {
+    throw new YamlError(`multi-line strings are not supported; quote the value if it starts with ${first}`, line);
+  }
+  if (first === '&' || first === '*' || first === '!') {
+    throw new YamlError('anchors, aliases and tags are not supported', line);
+  }
+
+  if (text === '~' || text === 'null') return null;
+  if (/^(true|false)$/i.test(text)) return text.toLowerCase() === 'true';
+  if (NUMBER_PATTERN.test(text)) return Number(text);
+  return text;
+}
+
+function unquoteKey(text: string, line: number): string {
+  const key = text.trim();
+  if (key.startsWith('"') || key.startsWith("'")) return String(parseScalar(key, line));
+  return key;
+}
+
+/**
+ * Parse a YAML document in the subset described above. Throws YamlError
+ * naming the offending line.
+ */
+export function parseYaml(content: string): unknown {
+  const lines = toLines(content);
+  let pos = 0;
+
+  function parseNode(indent: number): unknown {
+    const { text, line } = lines[pos];
+    if (isSequenceItem(text)) return parseSequence(indent);
+    if (mappingColon(text) !== -1) return parseMapping(indent);
+    pos++;
+    return parseScalar(text, line);
+  }
+
+  function parseSequence(indent: number): unknown[] {
+    const items: unknown[] = [];
+
+    while (pos < lines.length && lines[pos].indent === indent && isSequenceItem(lines[pos].text)) {
+      const { text, line } = lines[pos];
+      const rest = text.slice(1).trimStart();
+
+      if (!rest) {
+        pos++;
+        const next = lines[pos];
+        items.push(next && next.indent > indent ? parseNode(next.indent) : null);
+        continue;
+      }
+
+      // "- key: value" opens a mapping indented to where "key" starts
+      const itemIndent = indent + text.length - rest.length;
+      lines[pos] = { indent: itemIndent, text: rest, line };
+      items.push(parseNode(itemIndent));
+    }
+
+    return items;
+  }
+
+  function parseMapping(indent: number): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+
+    while (pos < lines.length && lines[pos].indent === indent && !isSequenceItem(lines[pos].text)) {
+      const { text, line } = lines[pos];
+      const colon = mappingColon(text);
+      if (colon === -1) throw new YamlError(`expected "key: value", got "${text}"`, line);
+
+      const key = unquoteKey(text.slice(0, colon), line);
+      if (Object.hasOwn(result, key)) throw new YamlError(`duplicate key "${key}"`, line);
+
+      const rest = text.slice(colon + 1).trim();
+      pos++;
+      if (rest) {
+        result[key] = parseScalar(rest, line);
+        continue;
+      }
+
+      // A nested block, or a list written at the key's own indent
+      const next = lines[pos];
+      result[key] = next && (next.indent > indent || (next.indent === indent && isSequenceItem(next.text)))
+        ? parseNode(next.indent)
+        : null;
+    }
+
+    return result;
+  }
+
+  if (lines.length === 0) return null;
+  const value = parseNode(lines[0].indent);
+  if (pos < lines.length) {
+    throw new YamlError('unexpected indentation', lines[pos].line);
+  }
+  return value;
+}